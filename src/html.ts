@@ -0,0 +1,94 @@
+// src/html.ts
+//
+// Tagged-template HTML for the pages the Worker renders. Everything interpolated into html`` is escaped
+// unless it is already SafeHtml (a nested html`` or raw()), so request data, TikTok error bodies and KV
+// values can't inject markup. page() wraps a body in the shared Tailwind layout and sends it with a
+// Content-Security-Policy that only runs inline scripts carrying that response's nonce.
+
+export class SafeHtml {
+  constructor(readonly value: string) {}
+  toString() {
+    return this.value;
+  }
+}
+
+export function escapeHtml(v: unknown) {
+  return String(v ?? "").replace(/[&<>"'`]/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+// Arrays are joined; null, undefined and false render as nothing (for `${cond && html`…`}`)
+function renderValue(v: unknown): string {
+  if (v instanceof SafeHtml) return v.value;
+  if (Array.isArray(v)) return v.map(renderValue).join("");
+  if (v === null || v === undefined || v === false) return "";
+  return escapeHtml(v);
+}
+
+export function html(strings: TemplateStringsArray, ...values: unknown[]) {
+  let out = strings[0];
+  for (let i = 0; i < values.length; i++) out += renderValue(values[i]) + strings[i + 1];
+  return new SafeHtml(out);
+}
+
+// Trusted, constant markup only (inline SVG icons); never request or stored data
+export function raw(markup: string) {
+  return new SafeHtml(markup);
+}
+
+const TAILWIND_CDN = "https://cdn.tailwindcss.com";
+const TAILWIND_CONFIG =
+  "tailwind.config={theme:{extend:{colors:{offwhite:'#fdf7ed',brandred:'#e6372e'},boxShadow:{soft:'0 10px 30px rgba(0,0,0,.06)'}}}}";
+
+// The Tailwind CDN injects <style> tags at runtime, so styles stay 'unsafe-inline'; scripts need the nonce
+function contentSecurityPolicy(nonce: string) {
+  return [
+    "default-src 'none'",
+    `script-src 'nonce-${nonce}' ${TAILWIND_CDN}`,
+    "style-src 'unsafe-inline'",
+    "img-src 'self' data: https:",
+    "connect-src 'self'",
+    "form-action 'self'",
+    "base-uri 'none'",
+    "frame-ancestors 'none'",
+  ].join("; ");
+}
+
+export type PageOptions = {
+  title: string;
+  body: SafeHtml;
+  bodyClass?: string;
+  script?: string;      // inline script source; constant code, runs with the page nonce
+  status?: number;
+  headers?: Record<string, string>;
+};
+
+export function page(opts: PageOptions) {
+  const nonce = crypto.randomUUID().replaceAll("-", "");
+  const markup = html`<!doctype html><html lang="en"><head>
+<meta charset="utf-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/>
+<title>${opts.title} • R2 TikTok Upload</title>
+<script nonce="${nonce}" src="${TAILWIND_CDN}"></script>
+<script nonce="${nonce}">${raw(TAILWIND_CONFIG)}</script>
+</head>
+<body class="${opts.bodyClass ?? "bg-offwhite text-[#1a1a1a] font-sans min-h-screen p-6"}">
+${opts.body}
+${opts.script ? html`<script nonce="${nonce}">${raw(opts.script)}</script>` : ""}
+</body></html>`;
+
+  return new Response(markup.value, {
+    status: opts.status ?? 200,
+    headers: {
+      "content-type": "text/html; charset=UTF-8",
+      "content-security-policy": contentSecurityPolicy(nonce),
+      "x-content-type-options": "nosniff",
+      "referrer-policy": "same-origin",
+      ...opts.headers,
+    },
+  });
+}
+
+// Opener side of the TikTok sign-in popup: only trust messages from our own origin
+export const AUTH_MESSAGE_LISTENER = `window.addEventListener("message", (event) => {
+  if (event.origin !== location.origin) return;
+  if (event.data?.type === "tiktok-auth" && event.data.ok) location.href = "/connected-success";
+});`;
@@ -1,6 +1,9 @@
 import "./shims";
 import { makeSigner } from "./signer";
-import type { ScheduledController, ExecutionContext } from '@cloudflare/workers-types';
+import { makeTokenCrypto } from "./tokenCrypto";
+import { makeMediaProbe, checkVideoLimits, type VideoMeta } from "./mediaProbe";
+import { html, raw, page, AUTH_MESSAGE_LISTENER, type SafeHtml } from "./html";
+import type { ScheduledController, ExecutionContext, MessageBatch, Message } from '@cloudflare/workers-types';
 
 export interface Env {
   TOKENS_KV: KVNamespace;
@@ -11,14 +14,32 @@ export interface Env {
   AUTHORIZE_URL: string;
   TOKEN_URL: string;
   POST_INIT_URL: string;
+  POST_STATUS_URL: string;
+  CREATOR_INFO_URL: string;
+  CONTENT_INIT_URL: string;
+  USER_INFO_URL: string;
+  REVOKE_URL: string;
   POST_API_KEY?: string;
   R2_ACCESS_KEY_ID: string;
   R2_SECRET_ACCESS_KEY: string;
   R2_BUCKET: string;
+  R2_ACCOUNT_ID?: string;         // only for signing against the account S3 endpoint
   CUSTOM_MEDIA_HOST: string;
+  KEY_TEMPLATE?: string;          // see src/signer.ts
+  KEY_PREFIXES?: string;
+  MEDIA_BUCKET?: R2Bucket;        // only needed for source: "upload"
+  TOKEN_LOCK?: DurableObjectNamespace;
+  RATE_LIMITER?: DurableObjectNamespace;
+  IDEMPOTENCY_LOCK?: DurableObjectNamespace;
+  POST_QUEUE?: Queue<InitQueueMessage>;   // async /webhook mode and init retries
+  POST_HISTORY_DB?: D1Database;   // post history; KV (hist:) is used without it
+  TOKEN_ENC_KEYS?: string;        // secret; see src/tokenCrypto.ts
+  SESSION_SECRET?: string;        // secret; signs /dashboard session cookies
 }
 
 const SITE_HOME = "https://tryr2media.zerotosixtycreative.co.uk";
+// Must match the daily entry in wrangler.toml [triggers]; every other cron is the frequent tick
+const DAILY_CRON = "0 5 * * *";
 
 // top-level (safe)
 let BUILD: { ts: string; nonce: string } | undefined;
@@ -52,31 +73,38 @@ export default {
     if (url.pathname === "/login") return login(url, env);
     if (url.pathname === "/callback") return callback(url, env);
     if (url.pathname === "/connected-success") return connectedSuccessPage(); 
-    if (url.pathname === "/post" && req.method === "POST") return webhook(req, env);
-    if (url.pathname === "/keys/new" && req.method === "GET") return newKeyForm();
+    if (url.pathname === "/post" && req.method === "POST") return webhook(req, env, ctx);
+    if (url.pathname === "/keys/new" && req.method === "GET") return newKeyForm(env);
     if (url.pathname === "/keys/new" && req.method === "POST") return createKey(req, env);
+    if (["/keys", "/keys/label", "/keys/caption", "/keys/rotate", "/keys/revoke"].includes(url.pathname)) return keysRoutes(req, env, url);
     if (url.pathname === "/health") return json({ ok: true });
+    if (url.pathname === "/callbacks" && (req.method === "GET" || req.method === "POST")) return callbackConfig(req, env);
+    if (url.pathname === "/callbacks/deliveries" && req.method === "GET") return callbackDeliveries(req, env, url);
+    if (url.pathname === "/disconnect" && req.method === "POST") return disconnect(req, env);
+    if (url.pathname === "/tiktok/events" && req.method === "POST") return tiktokEvents(req, env);
+    if (url.pathname === "/accounts" || url.pathname === "/accounts/link") return accountsRoutes(req, env, url);
+    if (url.pathname === "/dashboard" || url.pathname.startsWith("/dashboard/")) return dashboardRoutes(req, env, ctx, url);
+    if (url.pathname === "/posts" && req.method === "GET") return postHistory(req, env, url);
+    if (url.pathname === "/scheduled" || url.pathname.startsWith("/scheduled/")) return scheduledRoutes(req, env, url);
+    if (url.pathname.startsWith("/jobs/") && req.method === "GET") {
+      return initJobStatus(req, env, decodeURIComponent(url.pathname.slice("/jobs/".length)));
+    }
+    if (url.pathname.startsWith("/status/") && req.method === "GET") {
+      return publishStatus(req, env, decodeURIComponent(url.pathname.slice("/status/".length)));
+    }
     if (url.pathname === "/webhook" && req.method === "POST") {
       const dry = url.searchParams.get("dry") === "1" || req.headers.get("X-Dry-Run") === "1";
-      return webhook(req, env, { dry });
-    }
-
-    if (url.pathname === "/preflight" && req.method === "POST") {
-      const { testUrl } = await req.json().catch(() => ({}));
-      if (!testUrl) return json({ ok:false, error:"missing testUrl" }, 400);
-      const head = await fetch(testUrl, { method: "HEAD" });  // ok if 403, we’ll try range GET too
-      const range = await fetch(testUrl, { headers: { Range: "bytes=0-0" }});
-      return json({
-        ok: (head.ok || range.status === 206),
-        head: {
-          status: head.status,
-          "content-type": head.headers.get("content-type"),
-          "content-length": head.headers.get("content-length"),
-          "accept-ranges": head.headers.get("accept-ranges")
-        },
-        range: { status: range.status }
-      });
+      return webhook(req, env, ctx, { dry });
     }
+    if (url.pathname === "/webhook/batch" && req.method === "POST") {
+      const dry = url.searchParams.get("dry") === "1" || req.headers.get("X-Dry-Run") === "1";
+      return webhookBatch(req, env, ctx, { dry });
+    }
+    if (url.pathname.startsWith("/webhook/batch/") && req.method === "GET") {
+      return batchStatus(req, env, decodeURIComponent(url.pathname.slice("/webhook/batch/".length)));
+    }
+
+    if (url.pathname === "/preflight" && req.method === "POST") return preflight(req, env);
 
     if (url.pathname === "/debug-signer") {
       try {
@@ -84,12 +112,7 @@ export default {
         const rawUrl = url.searchParams.get("url") || undefined;
         if (!id && !rawUrl) return json({ error: "pass id= or url=" }, 400);
 
-        const signer = makeSigner({
-          R2_ACCESS_KEY_ID: env.R2_ACCESS_KEY_ID,
-          R2_SECRET_ACCESS_KEY: env.R2_SECRET_ACCESS_KEY,
-          R2_BUCKET: env.R2_BUCKET,
-          CUSTOM_MEDIA_HOST: env.CUSTOM_MEDIA_HOST,
-        });
+        const signer = makeSigner(signerEnv(env));
 
         const signed = await signer.resolveAndSign({ id, url: rawUrl });
         return json({ ok: true, signed });
@@ -102,7 +125,22 @@ export default {
   },
 
 async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext) {
-    ctx.waitUntil(purgeSelective(env));
+    if (controller.cron === DAILY_CRON) {
+      ctx.waitUntil(purgeSelective(env));
+      ctx.waitUntil(reencryptTokens(env).then(() => sweepTokens(env)));
+      return;
+    }
+    // Frequent tick: due scheduled posts, then status polling and callback retries
+    ctx.waitUntil(
+      dispatchDueJobs(env)
+        .then(() => resumeUploads(env))
+        .then(() => pollPublishStatuses(env))
+        .then(() => processCallbackQueue(env))
+    );
+  },
+
+  async queue(batch: MessageBatch<InitQueueMessage>, env: Env, ctx: ExecutionContext) {
+    for (const msg of batch.messages) await processInitMessage(env, msg);
   }
 };
 
@@ -185,24 +223,40 @@ function json(data: unknown, status = 200, build?: { ts: string; nonce: string }
   });
 }
 
-function html(markup: string, status = 200) {
-  return new Response(markup, {
-    status,
-    headers: { "content-type": "text/html; charset=UTF-8" }
-  });
-}
-
 function b64url(u8: Uint8Array) {
   return btoa(String.fromCharCode(...u8))
     .replaceAll("+", "-").replaceAll("/", "_").replaceAll("=", "");
 }
 
+function fromB64url(s: string) {
+  return Uint8Array.from(atob(s.replaceAll("-", "+").replaceAll("_", "/")), (c) => c.charCodeAt(0));
+}
+
 async function sha256Base64Url(s: string) {
   const enc = new TextEncoder().encode(s);
   const buf = await crypto.subtle.digest("SHA-256", enc);
   return b64url(new Uint8Array(buf));
 }
 
+async function hmacSha256Hex(secret: string, data: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const sig = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data));
+  return [...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
 async function mintApiToken() {
   const bytes = new Uint8Array(32);
   crypto.getRandomValues(bytes);
@@ -211,13 +265,14 @@ async function mintApiToken() {
 
 async function login(url: URL, env: Env) {
   const show = url.searchParams.get("show") || "";
-  if (!show) {
+  const link = url.searchParams.get("link") || "";
+  if (!show && !link) {
     // No one-time key in play → send them to create one first
     return Response.redirect("/keys/new", 302);
   }
 
   const state = crypto.randomUUID();
-  await env.TOKENS_KV.put(`state:${state}`, JSON.stringify({ show }), { expirationTtl: 300 });
+  await env.TOKENS_KV.put(`state:${state}`, JSON.stringify({ show, link }), { expirationTtl: 300 });
 
   const auth = new URL(env.AUTHORIZE_URL);
   auth.searchParams.set("client_key", env.TIKTOK_CLIENT_KEY);
@@ -229,98 +284,113 @@ async function login(url: URL, env: Env) {
   return Response.redirect(auth.toString(), 302);
 }
 
-function newKeyForm() {
-  const page = `<!doctype html><html><head>
-<meta charset="utf-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/>
-<title>Create API key • R2 TikTok Upload</title>
-<script src="https://cdn.tailwindcss.com"></script>
-<script>tailwind.config={theme:{extend:{colors:{offwhite:'#fdf7ed',brandred:'#e6372e'},boxShadow:{soft:'0 10px 30px rgba(0,0,0,.06)'}}}}</script>
-</head>
-<body class="bg-offwhite min-h-screen flex items-center justify-center p-6">
+function newKeyForm(env: Env) {
+  return page({
+    title: "Create API key",
+    bodyClass: "bg-offwhite min-h-screen flex items-center justify-center p-6",
+    body: html`
   <form method="POST" class="w-full max-w-md bg-white rounded-2xl p-6 shadow">
     <div class="flex items-center justify-between mb-3">
       <h1 class="text-2xl font-bold">Create your API key</h1>
     </div>
     <p class="text-black/70 mb-4">We’ll generate a secure key and show it once. Then you’ll connect TikTok.</p>
+    <label class="block text-sm text-black/70 mb-1" for="label">Label (optional)</label>
+    <input id="label" name="label" maxlength="${KEY_LABEL_MAX}" placeholder="e.g. Zapier – brand account"
+           class="w-full rounded border border-black/20 px-3 py-2 mb-4"/>
+    <details class="mb-4 text-sm">
+      <summary class="cursor-pointer text-black/70">Restrict this key (optional)</summary>
+      <div class="mt-3 space-y-3">
+        <label class="flex items-center gap-2"><input type="checkbox" name="scope_draft_only"/> Drafts only</label>
+        <label class="flex items-center gap-2"><input type="checkbox" name="scope_dry_run_only"/> Dry runs only</label>
+        <div>
+          <label class="block text-black/70 mb-1" for="scope_prefixes">Allowed R2 prefixes (comma-separated)</label>
+          <input id="scope_prefixes" name="scope_prefixes" placeholder="clients/acme/" class="w-full rounded border border-black/20 px-3 py-2"/>
+        </div>
+        <div>
+          <label class="block text-black/70 mb-1" for="scope_id_prefix">Id prefix (prepended when posting by id)</label>
+          <input id="scope_id_prefix" name="scope_id_prefix" placeholder="clients/acme/" class="w-full rounded border border-black/20 px-3 py-2"/>
+        </div>
+        <fieldset>
+          <legend class="text-black/70 mb-1">Allowed privacy levels (none ticked = any)</legend>
+          ${PRIVACY_LEVELS.map((p) => html`<label class="flex items-center gap-2"><input type="checkbox" name="scope_privacy" value="${p}"/> ${p}</label>
+          `)}
+        </fieldset>
+        <div>
+          <label class="block text-black/70 mb-1" for="scope_rate_limit">Rate limit (requests/minute, at most ${webhookRatePerMin(env)})</label>
+          <input id="scope_rate_limit" name="scope_rate_limit" type="number" min="1" max="${webhookRatePerMin(env)}" class="w-full rounded border border-black/20 px-3 py-2"/>
+        </div>
+      </div>
+    </details>
     <button class="w-full rounded bg-brandred text-white px-4 py-2">Create key</button>
     <div class="flex items-center justify-center mt-2">
       <a href="${SITE_HOME}" class="text-sm text-center text-brandred  hover:underline">Back to site</a>
     </div>
-  </form>
-
-  <script>
+  </form>`,
     // Listen for the TikTok popup message and redirect this tab
-    window.addEventListener("message", (event) => {
-      if (event.data?.type === "tiktok-auth" && event.data.ok) {
-        location.href = "/connected-success";
-      }
-    });
-  </script>
-</body></html>`;
-  return html(page);
+    script: AUTH_MESSAGE_LISTENER,
+  });
 }
 
 async function createKey(req: Request, env: Env) {
   const ip = getClientIp(req);
-  const rl = await enforceRate(env, `rk:newkey:${ip}`, 5, 3600);
+  const cfg = routeRateLimit(env, "NEWKEY", { limit: 5, windowSec: 3600 });
+  const rl = await enforceRate(env, `rk:newkey:${ip}`, cfg.limit, cfg.windowSec);
   if (!rl.allowed) return ratelimitedJson(rl);
+  const form = await req.formData().catch(() => null);
+  const label = cleanKeyLabel(form?.get("label"));
+  const scopes = parseKeyScopes(form, webhookRatePerMin(env));
+  if (typeof scopes === "string") return json({ ok: false, error: "invalid_scopes", message: scopes }, 400);
   const raw = await mintApiToken();
   const hash = await sha256Base64Url(raw);
+  const signingSecret = await mintSigningSecret();
   const showId = crypto.randomUUID();
   const now = Date.now();
 
   // mark pending
-  await env.TOKENS_KV.put(`api:${hash}`, JSON.stringify({ status: "pending", created_at: now }));
+  await env.TOKENS_KV.put(`api:${hash}`, JSON.stringify({
+    status: "pending",
+    created_at: now,
+    signing_secret: signingSecret,
+    ...(label ? { label } : {}),
+    ...(scopes ? { scopes } : {}),
+  }));
   // one-time stash to show again on callback
   await env.TOKENS_KV.put(`showkey:${showId}`, raw, { expirationTtl: 600 });
 
-  const page = `<!doctype html><html><head>
-<meta charset="utf-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/>
-<title>Your API key • R2 TikTok Upload</title>
-<script src="https://cdn.tailwindcss.com"></script>
-<script>tailwind.config={theme:{extend:{colors:{offwhite:'#fdf7ed',brandred:'#e6372e'}}}}</script>
-</head>
-<body class="bg-offwhite min-h-screen flex items-center justify-center p-6">
+  return page({
+    title: "Your API key",
+    bodyClass: "bg-offwhite min-h-screen flex items-center justify-center p-6",
+    body: html`
   <div class="w-full max-w-xl bg-white rounded-2xl p-6 shadow">
     <h1 class="text-2xl font-bold">API key created</h1>
     <p class="text-black/70 mt-2">Copy and store this key securely. You’ll use it as the <code>X-Api-Key</code> header.</p>
     <pre class="mt-4 rounded bg-black/90 text-white p-4 select-all text-sm overflow-x-auto">${raw}</pre>
     <p class="mt-1 text-xs text-black/60">Shown once. We only store a secure hash.</p>
+    <p class="text-black/70 mt-4">Callback signing secret (verifies the <code>${CALLBACK_SIGNATURE_HEADER}</code> header on completion callbacks):</p>
+    <pre class="mt-2 rounded bg-black/5 p-3 select-all text-sm overflow-x-auto">${signingSecret}</pre>
     <div class="mt-6 flex gap-3">
       <a class="rounded bg-brandred text-white px-4 py-2"
          href="/login?show=${encodeURIComponent(showId)}" target="_blank" rel="noopener">Connect TikTok</a>
       <a class="rounded border border-brandred text-brandred px-4 py-2" href="${SITE_HOME}">Back to home</a>
     </div>
-  </div>
-  <script>
-    window.addEventListener("message", (event) => {
-      if (event.data?.type === "tiktok-auth" && event.data.ok) {
-        // redirect within the same Worker
-        location.href = "/connected-success";
-      }
-    });
-  </script>
-</body></html>`;
-  return html(page);
+  </div>`,
+    script: AUTH_MESSAGE_LISTENER,
+  });
 }
 
 function connectedSuccessPage() {
-  const page = `<!doctype html><html><head>
-<meta charset="utf-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/>
-<title>Connected • R2 TikTok Upload</title>
-<script src="https://cdn.tailwindcss.com"></script>
-<script>tailwind.config={theme:{extend:{colors:{offwhite:'#fdf7ed',brandred:'#e6372e'},boxShadow:{soft:'0 10px 30px rgba(0,0,0,.06)'}}}}</script>
-</head>
-<body class="bg-offwhite min-h-screen flex items-center justify-center p-6">
+  return page({
+    title: "Connected",
+    bodyClass: "bg-offwhite min-h-screen flex items-center justify-center p-6",
+    body: html`
   <div class="bg-white p-8 rounded-2xl shadow text-center max-w-md w-full">
     <h1 class="text-2xl font-bold text-brandred">🎉 Connected to TikTok!</h1>
     <p class="mt-3 text-black/70">Your TikTok account is now linked. You can safely close this window after putting your API key somewhere safe.</p>
     <div class="mt-6">
       <a href="${SITE_HOME}" class="rounded bg-brandred text-white px-4 py-2">Back to home</a>
     </div>
-  </div>
-</body></html>`;
-  return html(page);
+  </div>`,
+  });
 }
 
 async function callback(url: URL, env: Env) {
@@ -334,7 +404,7 @@ async function callback(url: URL, env: Env) {
   if (!stateRaw) {
     return renderCallbackPage({ ok:false, title:"Session expired", message:"Sign-in session expired.", details:"Try Connect TikTok again." }, 400);
   }
-  let info: { show?: string } = {};
+  let info: { show?: string; link?: string } = {};
   try { info = JSON.parse(stateRaw || "{}"); } catch {}
 
   const body = new URLSearchParams({
@@ -356,9 +426,42 @@ async function callback(url: URL, env: Env) {
     return renderCallbackPage({ ok:false, title:"Couldn’t connect to TikTok", message:"The token exchange failed.", details: detail || "Please try again." }, 500);
   }
 
-  const data = await r.json(); // access_token, refresh_token, open_id, expires_in
+  const data: any = await r.json(); // access_token, refresh_token, open_id, expires_in, refresh_expires_in
+  const profile = await fetchUserInfo(env, data.access_token);
   // store tokens per TikTok account
-  await env.TOKENS_KV.put(`tok:open:${data.open_id}`, JSON.stringify({ ...data, obtained_at: Date.now() }));
+  const obtainedAt = Date.now();
+  await writeTokenRecord(env, `tok:open:${data.open_id}`, {
+    ...data,
+    profile,
+    obtained_at: obtainedAt,
+    ...(data.refresh_expires_in ? { refresh_expires_at: obtainedAt + data.refresh_expires_in * 1000 } : {}),
+  });
+  await env.TOKENS_KV.delete(`disc:open:${data.open_id}`); // reconnecting clears an earlier disconnect
+  const account: LinkedAccount = {
+    open_id: data.open_id,
+    label: profile?.display_name,
+    avatar_url: profile?.avatar_url,
+    linked_at: Date.now(),
+  };
+
+  // Adding another account to an existing key (/login?link=)
+  if (info.link) {
+    const linkRaw = await env.TOKENS_KV.get(`link:${info.link}`);
+    const apiHash = tryParse(linkRaw || "")?.api_hash;
+    const metaRaw = apiHash ? await env.TOKENS_KV.get(`api:${apiHash}`) : null;
+    if (!metaRaw) {
+      return renderCallbackPage({ ok:false, title:"Link expired", message:"This account link has expired.", details:"Request a new link with POST /accounts/link." }, 400);
+    }
+    await env.TOKENS_KV.delete(`link:${info.link}`);
+    const linkedMeta = upsertAccount(tryParse(metaRaw) || {}, account);
+    await env.TOKENS_KV.put(`api:${apiHash}`, JSON.stringify(linkedMeta), apiKeyPutOptions(linkedMeta));
+    return renderCallbackPage({
+      ok: true,
+      title: "Account linked",
+      message: `${account.label ?? "Your TikTok account"} can now be targeted with this API key.`,
+      details: "",
+    });
+  }
 
   // If we carried a show-id, reveal key once more and activate it
   let showKey = "";
@@ -367,9 +470,14 @@ async function callback(url: URL, env: Env) {
     if (showKey) {
       await env.TOKENS_KV.delete(`showkey:${info.show}`);
       const hash = await sha256Base64Url(showKey);
+      const pending = tryParse((await env.TOKENS_KV.get(`api:${hash}`)) || "") || {};
       await env.TOKENS_KV.put(`api:${hash}`, JSON.stringify({
+        ...(pending.label ? { label: pending.label } : {}),
+        ...(pending.scopes ? { scopes: pending.scopes } : {}),
+        ...(pending.signing_secret ? { signing_secret: pending.signing_secret } : {}),
         status: "active",
         open_id: data.open_id,
+        accounts: [account],
         created_at: Date.now()
       }));
     }
@@ -384,125 +492,497 @@ async function callback(url: URL, env: Env) {
   });
 }
 
-function renderCallbackPage(
+const ICON_OK = raw('<svg xmlns="http://www.w3.org/2000/svg" class="h-7 w-7" viewBox="0 0 24 24" fill="currentColor"><path d="M9 16.2 4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4z"/></svg>');
+const ICON_ERROR = raw('<svg xmlns="http://www.w3.org/2000/svg" class="h-7 w-7" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20Zm1 14h-2v-2h2v2Zm0-4h-2V6h2v6Z"/></svg>');
+
+// details can be TikTok's raw error body; like every other field it is escaped by html``
+export function renderCallbackPage(
   opts: { ok: boolean; title: string; message: string; details?: string; apiKeyOnce?: string },
   status = 200
 ) {
-  const ok = opts.ok ? "true" : "false";
-  const keyBlock = opts.apiKeyOnce
-    ? `<h2 class="text-lg font-semibold mt-6">Your API key (save this)</h2>
+  const keyBlock = opts.apiKeyOnce && html`<h2 class="text-lg font-semibold mt-6">Your API key (save this)</h2>
        <pre class="mt-2 rounded bg-black/90 text-white p-3 select-all text-sm">${opts.apiKeyOnce}</pre>
-       <p class="text-xs text-black/60 mt-1">Shown once. We only store a secure hash.</p>`
-    : "";
-
-  const markup = `<!DOCTYPE html><html lang="en"><head>
-<meta charset="UTF-8"/><meta name="viewport" content="width=device-width,initial-scale=1"/>
-<title>${opts.ok ? "Connected" : "Error"} • R2 TikTok Upload</title>
-<script src="https://cdn.tailwindcss.com"></script>
-<script>tailwind.config={theme:{extend:{colors:{offwhite:'#fdf7ed',brandred:'#e6372e'},boxShadow:{soft:'0 10px 30px rgba(0,0,0,.06)'}}}}</script>
-</head>
-<body class="bg-offwhite text-[#1a1a1a] font-sans min-h-screen flex items-center justify-center p-6">
+       <p class="text-xs text-black/60 mt-1">Shown once. We only store a secure hash.</p>`;
+
+  return page({
+    title: opts.ok ? "Connected" : "Error",
+    status,
+    bodyClass: "bg-offwhite text-[#1a1a1a] font-sans min-h-screen flex items-center justify-center p-6",
+    body: html`
   <div class="w-full max-w-md rounded-2xl bg-white shadow-soft p-8 text-center">
     <div class="mx-auto mb-4 h-12 w-12 rounded-full flex items-center justify-center ${opts.ok ? 'bg-brandred/10 text-brandred' : 'bg-red-100 text-brandred'}">
-      ${opts.ok
-        ? '<svg xmlns="http://www.w3.org/2000/svg" class="h-7 w-7" viewBox="0 0 24 24" fill="currentColor"><path d="M9 16.2 4.8 12l-1.4 1.4L9 19 21 7l-1.4-1.4z"/></svg>'
-        : '<svg xmlns="http://www.w3.org/2000/svg" class="h-7 w-7" viewBox="0 0 24 24" fill="currentColor"><path d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20Zm1 14h-2v-2h2v2Zm0-4h-2V6h2v6Z"/></svg>'}
+      ${opts.ok ? ICON_OK : ICON_ERROR}
     </div>
     <h1 class="text-2xl font-bold">${opts.title}</h1>
     <p class="mt-2 text-black/70">${opts.message}</p>
-    ${opts.details ? `<pre class="mt-4 text-left whitespace-pre-wrap break-words rounded bg-black/5 p-3 text-sm text-black/70">${opts.details}</pre>` : ''}
+    ${opts.details && html`<pre class="mt-4 text-left whitespace-pre-wrap break-words rounded bg-black/5 p-3 text-sm text-black/70">${opts.details}</pre>`}
     ${keyBlock}
     <div class="mt-6 flex flex-col items-center gap-2">
       <a href="${SITE_HOME}" class="rounded-lg bg-brandred px-4 py-2 text-white hover:opacity-90 transition">Back to home</a>
     </div>
-  </div>
-  <script>
-    // Notify the opener, but do NOT auto-close this window.
-    try { window.opener && window.opener.postMessage({ type: "tiktok-auth", ok: ${ok} }, "*"); } catch(e) {}
-  </script>
-</body></html>`;
-  return html(markup, status);
+  </div>`,
+    // Notify the opener (our own /keys/new page), but do NOT auto-close this window.
+    script: `try { window.opener && window.opener.postMessage({ type: "tiktok-auth", ok: ${opts.ok ? "true" : "false"} }, location.origin); } catch(e) {}`,
+  });
 }
 
-async function webhook(req: Request, env: Env, opts: { dry?: boolean } = {}) {
-  // API key auth (no usernames)
+// API key auth (no usernames). Returns the key hash + its api:<hash> record, or an error response.
+async function authenticate(
+  req: Request,
+  env: Env,
+  rate?: { prefix: string; limit: number; windowSec: number }
+): Promise<{ hash: string; apiMeta: any; openId: string } | Response> {
   const apiKey = req.headers.get("X-Api-Key") || "";
   if (!apiKey) return json({ ok:false, error:"missing X-Api-Key" }, 401);
   const hash = await sha256Base64Url(apiKey);
-  const rl = await enforceRate(env, `rk:webhook:${hash}`, 60, 60);
-  if (!rl.allowed) return ratelimitedJson(rl);
+  if (rate) {
+    const rl = await enforceRate(env, `${rate.prefix}:${hash}`, rate.limit, rate.windowSec);
+    if (!rl.allowed) return ratelimitedJson(rl);
+  }
+  return loadApiKey(env, hash);
+}
+
+// The api:<hash> checks behind authenticate(); also used for dashboard sessions, which carry the hash
+async function loadApiKey(env: Env, hash: string): Promise<{ hash: string; apiMeta: any; openId: string } | Response> {
   const apiMetaRaw = await env.TOKENS_KV.get(`api:${hash}`);
   if (!apiMetaRaw) return json({ ok:false, error:"unauthorised" }, 401);
   const apiMeta = tryParse(apiMetaRaw) || {};
+  if (apiMeta.status === "revoked" && apiMeta.revoked_reason === "account_disconnected") {
+    return json({ ok:false, error:"account_disconnected", message:"The TikTok account for this key was disconnected. Create a new key and connect TikTok again." }, 403);
+  }
+  if (apiMeta.status === "revoked") return json({ ok:false, error:"api key revoked" }, 401);
+  if (apiMeta.grace_until && Date.now() > apiMeta.grace_until) {
+    return json({ ok:false, error:"api key rotated (use the new key)" }, 401);
+  }
   if (apiMeta.status !== "active" || !apiMeta.open_id) {
     return json({ ok:false, error:"api key not activated (connect TikTok first)" }, 401);
   }
-  const openId: string = apiMeta.open_id;
+  return { hash, apiMeta, openId: apiMeta.open_id };
+}
+
+async function webhook(req: Request, env: Env, ctx: ExecutionContext, opts: { dry?: boolean } = {}) {
+  const auth = await authenticate(req, env);
+  if (auth instanceof Response) return auth;
+  const scopes: KeyScopes = auth.apiMeta.scopes ?? {};
+  const cfg = webhookRateLimit(env, scopes);
+  const rl = await enforceRate(env, `rk:webhook:${auth.hash}`, cfg.limit, cfg.windowSec);
+  if (!rl.allowed) return ratelimitedJson(rl);
+  touchApiKey(env, ctx, auth.hash, auth.apiMeta);
+
+  const body: any = await req.json().catch(() => ({}));
+  const parsed = await parsePostRequest(env, auth, body, {
+    dry: !!opts.dry,
+    asyncRequested: /\brespond-async\b/i.test(req.headers.get("prefer") ?? ""),
+    idempotencyKeyHeader: req.headers.get("idempotency-key") ?? undefined,
+    clientIp: getClientIp(req),
+  });
+  if ("error" in parsed) return json(parsed.error, parsed.status);
+  const { baseJob, targets, at, asyncMode } = parsed;
+
+  if (body.accounts === undefined) {
+    const { result, status } = await runPostJob(env, { ...baseJob, open_id: targets[0].open_id }, at, { ...opts, async: asyncMode });
+    return json(result, status);
+  }
+
+  // Fan-out: same media to every selected account; idempotency is per account (idem:<open_id>:<key>)
+  const results = [];
+  for (const acct of targets) {
+    const { result, status } = await runPostJob(env, { ...baseJob, open_id: acct.open_id }, at, { ...opts, async: asyncMode });
+    results.push({ account: acct.label ?? acct.open_id, openId: acct.open_id, httpStatus: status, ...result });
+  }
+  const succeeded = results.filter((r) => r.ok).length;
+  return json({
+    ok: succeeded === results.length,
+    fanOut: true,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  }, succeeded === results.length ? 200 : 207);
+}
 
-  // 2) Parse body (accept id OR url/r2Url; caption + idempotencyKey optional)
-  const body = await req.json().catch(() => ({}));
-  const { id, r2Url, url, caption, idempotencyKey, mode } = body;
-  const cleanCaption = (caption ?? "").replace(/\u0000/g, ""); // strip NULs
+// Validates one post request body (media, options, accounts, scopes) into a job template.
+// Shared by /webhook and each item of /webhook/batch.
+async function parsePostRequest(
+  env: Env,
+  auth: { hash: string; apiMeta: any },
+  body: any,
+  opts: { dry: boolean; asyncRequested?: boolean; idempotencyKeyHeader?: string; clientIp?: string }
+): Promise<
+  | { baseJob: Omit<PostJob, "open_id">; targets: LinkedAccount[]; at: number | undefined; asyncMode: boolean }
+  | { error: any; status: number }
+> {
+  const scopes: KeyScopes = auth.apiMeta.scopes ?? {};
+
+  // Accept id OR key OR url/r2Url; caption + idempotencyKey optional
+  const { id, r2Url, url, mode, callbackUrl, publishAt } = body;
   const publishMode = (mode ?? "publish").toLowerCase();
+  const postType = String(body.type ?? "video").toLowerCase();
+  // Async: answer with a job id straight away and init from the queue (dry runs stay synchronous)
+  const asyncMode = !opts.dry && (body.async === true || !!opts.asyncRequested);
+
+  if (postType !== "video" && postType !== "photo") {
+    return { error: { ok: false, error: "type must be 'video' or 'photo'" }, status: 400 };
+  }
+  if (postType === "video" && !id && !r2Url && !url && !body.key) {
+    return { error: { ok: false, error: "Provide 'id', 'key' or 'r2Url'/'url'" }, status: 400 };
+  }
+
+  // Idempotency-Key header or body field; sending both with different values is ambiguous
+  const headerIdemKey = opts.idempotencyKeyHeader;
+  if (headerIdemKey !== undefined && body.idempotencyKey !== undefined && headerIdemKey !== String(body.idempotencyKey)) {
+    return { error: { ok: false, error: "idempotency_key_conflict", message: "Idempotency-Key header and idempotencyKey differ" }, status: 400 };
+  }
+  const idempotencyKey = headerIdemKey ?? (body.idempotencyKey !== undefined ? String(body.idempotencyKey) : undefined);
+  if (idempotencyKey !== undefined && (!idempotencyKey || idempotencyKey.length > IDEM_KEY_MAX)) {
+    return { error: { ok: false, error: "invalid_idempotency_key", message: `idempotency key must be 1–${IDEM_KEY_MAX} characters` }, status: 400 };
+  }
 
-  
+  // Completion callback: explicit per-request URL wins over the key's default
+  if (callbackUrl !== undefined) {
+    const cbErr = validateCallbackUrl(callbackUrl);
+    if (cbErr) return { error: { ok: false, error: "invalid_callback_url", message: cbErr }, status: 400 };
+  }
+  const effectiveCallbackUrl: string | undefined = callbackUrl || auth.apiMeta.callback_url || undefined;
 
-  if (!id && !r2Url && !url) {
-    return json({ ok: false, error: "Provide 'id' or 'r2Url'/'url'" }, 400);
+  const postOptions = parsePostOptions(body);
+  if (typeof postOptions === "string") {
+    return { error: { ok: false, error: "invalid_post_options", message: postOptions }, status: 400 };
+  }
+  const source = String(body.source ?? "pull").toLowerCase();
+  if (source !== "pull" && source !== "upload") {
+    return { error: { ok: false, error: "source must be 'pull' or 'upload'" }, status: 400 };
+  }
+  if (source === "upload" && postType === "photo") {
+    return { error: { ok: false, error: "photo posts only support source 'pull'" }, status: 400 };
+  }
+  if (source === "upload" && !env.MEDIA_BUCKET) {
+    return { error: { ok: false, error: "upload_unavailable", message: "MEDIA_BUCKET binding is not configured" }, status: 501 };
+  }
+  if (asyncMode && !env.POST_QUEUE) {
+    return { error: { ok: false, error: "async_unavailable", message: "POST_QUEUE binding is not configured" }, status: 501 };
+  }
+  if (postType === "photo" && postOptions.videoCoverTimestampMs !== undefined) {
+    return { error: { ok: false, error: "invalid_post_options", message: "videoCoverTimestampMs only applies to video posts" }, status: 400 };
   }
 
-  // 3) Idempotency (keep your existing logic)
-  if (idempotencyKey) {
-    const existed = await env.TOKENS_KV.get(`idem:${openId}:${idempotencyKey}`);
-    if (existed) return json(JSON.parse(existed));
+  // Target account(s): `account` picks one linked account, `accounts` fans out to several
+  const targets = resolveTargetAccounts(auth.apiMeta, body);
+  if (typeof targets === "string") return { error: { ok: false, error: "account_not_linked", message: targets }, status: 400 };
+  for (const t of targets) {
+    const disc = await env.TOKENS_KV.get(`disc:open:${t.open_id}`);
+    if (disc) return { error: { ok: false, error: "account_disconnected", message: disconnectedMessage(t, tryParse(disc)) }, status: 403 };
+    let tok: any;
+    try {
+      tok = await readTokenRecord(env, `tok:open:${t.open_id}`);
+    } catch {
+      return {
+        error: {
+          ok: false,
+          error: "token_unreadable",
+          message: `${t.label ?? t.open_id}'s stored token can't be decrypted with TOKEN_ENC_KEYS. Link the account again with POST /accounts/link.`,
+        },
+        status: 403,
+      };
+    }
+    if (tok?.needs_reauth) {
+      return {
+        error: {
+          ok: false,
+          error: "needs_reauth",
+          message: `${t.label ?? t.open_id} must be reconnected (${tok.reauth_reason ?? "refresh token rejected"}). Use POST /accounts/link.`,
+        },
+        status: 403,
+      };
+    }
   }
 
+  // Resolve the R2 object key(s) now; signing happens at init time so scheduled jobs get a fresh URL
+  let media: Pick<PostJob, "type" | "source" | "key" | "image_keys" | "photo_cover_index" | "description">;
   try {
-    // 4) Resolve to a 7-day URL on your custom domain (or pass-through if already custom)
-    // build the signed URL up front
-    const signer = makeSigner({
-      R2_ACCESS_KEY_ID: env.R2_ACCESS_KEY_ID,
-      R2_SECRET_ACCESS_KEY: env.R2_SECRET_ACCESS_KEY,
-      R2_BUCKET: env.R2_BUCKET,
-      CUSTOM_MEDIA_HOST: env.CUSTOM_MEDIA_HOST
-    });
+    const signer = makeSigner(signerEnv(env));
+    if (postType === "photo") {
+      const photo = parsePhotoInput(body, signer);
+      if (typeof photo === "string") return { error: { ok: false, error: "invalid_photo_post", message: photo }, status: 400 };
+      media = { type: "photo", ...photo };
+    } else {
+      const key = await signer.resolveKeyProbing(
+        { id, url: r2Url ?? url, key: body.key },
+        (k) => objectExists(env, signer, k),
+        { prefix: scopes.idPrefix }
+      );
+      media = { type: "video", source: source as "pull" | "upload", key };
+    }
+  } catch (err: any) {
+    return { error: { ok: false, error: String(err) }, status: 400 };
+  }
 
-    const videoUrl = await signer.resolveAndSign({ id, url: r2Url ?? url });
+  let at: number | undefined;
+  if (publishAt !== undefined) {
+    const parsed = parsePublishAt(publishAt);
+    if (typeof parsed === "string") return { error: { ok: false, error: "invalid_publish_at", message: parsed }, status: 400 };
+    at = parsed;
+  }
 
-    // 5) TikTok call (build post_info from mode)
-    const access = await getAccessTokenFor(env, `tok:open:${openId}`);
+  const denied = checkKeyScopes(scopes, {
+    dry: !!opts.dry,
+    mode: publishMode,
+    keys: media.type === "photo" ? media.image_keys : [media.key],
+    privacy: postOptions.privacy,
+  });
+  if (denied) return { error: { ok: false, error: denied.code, message: denied.message }, status: 403 };
 
-    const post_info: Record<string, any> = {
-      title: cleanCaption,
-      privacy_level: "SELF_ONLY",
-      disable_duet: false,
-      disable_stitch: false,
-      disable_comment: false,
-      brand_content_toggle: false,
-      brand_organic_toggle: false,
-      ...(publishMode === "draft" ? { is_draft: true } : {})
-    };
-    const source_info = { source: "PULL_FROM_URL", video_url: videoUrl };
+  // Caption: key template + variables, hashtags, mentions, then fitted to TikTok's limits
+  const rendered = buildCaption(body, auth.apiMeta.caption ?? {}, {
+    type: media.type,
+    id: id ?? (media.key ? media.key.split("/").pop()!.replace(/\.[^.]+$/, "") : undefined),
+    key: media.key,
+    date: new Date(at ?? Date.now()).toISOString().slice(0, 10),
+    description: media.description,
+  });
+  if ("code" in rendered) return { error: { ok: false, error: rendered.code, message: rendered.message }, status: 400 };
+
+  const baseJob: Omit<PostJob, "open_id"> = {
+    api_hash: auth.hash,
+    ...media,
+    ...(media.type === "photo" ? { description: rendered.description } : {}),
+    caption: rendered.caption,
+    mode: publishMode,
+    post_options: postOptions,
+    callback_url: effectiveCallbackUrl ?? null,
+    idempotency_key: idempotencyKey,
+    client_ip: opts.clientIp,
+    submitted_at: Date.now(),
+  };
+
+  return { baseJob, targets, at, asyncMode };
+}
+
+type RunPostOptions = {
+  dry?: boolean;
+  async?: boolean;
+  queueDelaySec?: number;                      // async only: hold the queue message back this long
+  account?: { access: string; creator: any };  // already fetched for this account (batches)
+};
+
+// Idempotency check, then store the job for later, hand it to the queue, or init it right away
+async function runPostJob(
+  env: Env,
+  job: PostJob,
+  publishAt: number | undefined,
+  opts: RunPostOptions = {}
+): Promise<{ result: any; status: number }> {
+  const idemKey = job.idempotency_key ? `idem:${job.open_id}:${job.idempotency_key}` : undefined;
+  if (idemKey) {
+    job = { ...job, idempotency_fingerprint: await requestFingerprint(job, publishAt) };
+    const existing = tryParse((await env.TOKENS_KV.get(idemKey)) || "");
+    if (existing) return idempotentReplay(existing, job.idempotency_fingerprint);
+    // Dry runs never reach TikTok, so they don't need to hold the key
+    if (!opts.dry) {
+      const claim = await claimIdempotencyKey(env, idemKey, job.idempotency_fingerprint);
+      if (!("owner" in claim)) return idempotentReplay(claim.existing, job.idempotency_fingerprint);
+      try {
+        return await runClaimedPostJob(env, job, publishAt, opts);
+      } finally {
+        await releaseIdempotencyKey(env, idemKey, claim.owner);
+      }
+    }
+  }
+  return runClaimedPostJob(env, job, publishAt, opts);
+}
+
+async function runClaimedPostJob(
+  env: Env,
+  job: PostJob,
+  publishAt: number | undefined,
+  opts: RunPostOptions
+): Promise<{ result: any; status: number }> {
+  // Scheduled for later? Store the validated job instead of calling TikTok
+  if (publishAt !== undefined) {
+    if (opts.dry) {
+      return { result: { ok: true, dryRun: true, scheduled: { publishAt: new Date(publishAt).toISOString(), job } }, status: 200 };
+    }
+    const sched = await schedulePost(env, job, publishAt);
+    const result = { ok: true, ...scheduledView(sched) };
+    await storeIdempotentResult(env, job, result);
+    await recordPostHistory(env, job, result, "api");
+    return { result, status: 202 };
+  }
+
+  if (opts.async) {
+    const rec = await enqueueInitJob(env, job, opts.queueDelaySec);
+    const result = { ok: true, ...initJobView(rec) };
+    // Replaced by the final result once the consumer gets a non-retryable answer from TikTok
+    await storeIdempotentResult(env, job, result);
+    await recordPostHistory(env, job, result, "api");
+    return { result, status: 202 };
+  }
+
+  const out = await initPost(env, job, opts);
+  if (!opts.dry) await recordPostHistory(env, job, out.result, "api");
+  return out;
+}
+
+// Everything needed to init a post later without the original request
+type PostJob = {
+  open_id: string;
+  api_hash: string;
+  type?: "video" | "photo";       // absent on older scheduled jobs → video
+  source?: "pull" | "upload";     // video: PULL_FROM_URL (default) or FILE_UPLOAD from MEDIA_BUCKET
+  key?: string;                   // video: resolved R2 object key
+  image_keys?: string[];          // photo: ordered R2 object keys
+  photo_cover_index?: number;     // photo: index into image_keys
+  description?: string;           // photo: body text (caption is the title)
+  caption: string;
+  mode: string;                   // "publish" | "draft"
+  post_options?: PostOptions;     // absent on jobs scheduled before options existed → defaults
+  callback_url?: string | null;
+  idempotency_key?: string;
+  idempotency_fingerprint?: string; // hash of the normalised request, stored with the result
+  client_ip?: string;             // for post history only
+  submitted_at?: number;
+};
+
+function signerEnv(env: Env) {
+  return {
+    R2_ACCESS_KEY_ID: env.R2_ACCESS_KEY_ID,
+    R2_SECRET_ACCESS_KEY: env.R2_SECRET_ACCESS_KEY,
+    R2_BUCKET: env.R2_BUCKET,
+    CUSTOM_MEDIA_HOST: env.CUSTOM_MEDIA_HOST,
+    R2_ACCOUNT_ID: env.R2_ACCOUNT_ID,
+    KEY_TEMPLATE: env.KEY_TEMPLATE,
+    KEY_PREFIXES: env.KEY_PREFIXES,
+  };
+}
+
+// Used for extension probing: the bucket binding when there is one, else a presigned HEAD
+async function objectExists(env: Env, signer: ReturnType<typeof makeSigner>, key: string) {
+  if (env.MEDIA_BUCKET) return !!(await env.MEDIA_BUCKET.head(key));
+  const r = await fetch(await signer.presign({ key, method: "HEAD", expires: 300 }), { method: "HEAD" });
+  return r.ok;
+}
+
+// Sign the media URL, call TikTok's init endpoint and record the outcome.
+// Shared by the synchronous /webhook path, the scheduled dispatcher and the queue consumer.
+// Transient failures come back with retryable: true and are not stored under the idempotency key,
+// so the same idempotencyKey can be sent again.
+async function initPost(
+  env: Env,
+  job: PostJob,
+  opts: { dry?: boolean; account?: { access: string; creator: any } } = {}
+): Promise<{ result: any; status: number }> {
+  const openId = job.open_id;
+  let initSent = false;
+
+  try {
+    const isPhoto = job.type === "photo";
+    const signer = makeSigner(signerEnv(env));
+
+    // TikTok call (build post_info from mode + options, checked against the creator's settings)
+    const access = opts.account?.access ?? await getAccessTokenFor(env, `tok:open:${openId}`);
+    const postOptions = job.post_options ?? DEFAULT_POST_OPTIONS;
+
+    const creator = opts.account ? { ok: true as const, data: opts.account.creator } : await queryCreatorInfo(env, access);
+    if ("error" in creator) {
+      const result = { ok: false, status: "failed", error: creator.error, ...retryFields(creator.retry) };
+      if (!creator.retry.retryable) await storeIdempotentResult(env, job, result);
+      return { result, status: creator.retry.retryable ? 503 : 502 };
+    }
+    const check = checkPostOptions(postOptions, creator.data, isPhoto ? "photo" : "video");
+    if ("error" in check) return { result: { ok: false, status: "rejected", error: check.error }, status: 400 };
+    const warnings = [...check.warnings];
+
+    // Presign 7-day URLs on your custom domain
+    const videoUrl = !isPhoto && job.source !== "upload" ? await signer.presignGet({ key: job.key }) : undefined;
+
+    // Read the video's own metadata and reject what TikTok would fail on later
+    let media: VideoMeta | undefined;
+    if (!isPhoto) {
+      const probed = await probeJobVideo(env, job.key, videoUrl, creator.data.max_video_post_duration_sec);
+      if ("issues" in probed) {
+        return {
+          result: {
+            ok: false,
+            status: "rejected",
+            error: { code: "invalid_media", message: probed.issues.map((i) => i.message).join("; "), issues: probed.issues },
+            media: probed.meta,
+          },
+          status: 422,
+        };
+      }
+      if ("notFound" in probed) {
+        return { result: { ok: false, status: "failed", error: { code: "object_not_found", message: `No R2 object at ${job.key}` } }, status: 404 };
+      }
+      if (probed.warning) warnings.push(probed.warning);
+      media = probed.meta;
+    }
+
+    // FILE_UPLOAD: size the chunks from the object itself
+    let uploadPlan: { size: number; chunkSize: number; total: number; contentType: string } | undefined;
+    if (!isPhoto && job.source === "upload") {
+      if (!env.MEDIA_BUCKET) throw new Error("MEDIA_BUCKET binding is not configured");
+      const head = await env.MEDIA_BUCKET.head(job.key);
+      if (!head) {
+        return { result: { ok: false, status: "failed", error: { code: "object_not_found", message: `No R2 object at ${job.key}` } }, status: 404 };
+      }
+      uploadPlan = {
+        size: head.size,
+        ...planChunks(head.size),
+        contentType: head.httpMetadata?.contentType || videoContentType(job.key),
+      };
+    }
+
+    const initUrl = isPhoto ? env.CONTENT_INIT_URL : env.POST_INIT_URL;
+    const request: Record<string, any> = isPhoto
+      ? {
+          post_info: buildPhotoPostInfo(job.caption, job.description, check.options),
+          source_info: {
+            source: "PULL_FROM_URL",
+            photo_cover_index: job.photo_cover_index ?? 0,
+            photo_images: await Promise.all((job.image_keys ?? []).map((key) => signer.presignGet({ key }))),
+          },
+          post_mode: job.mode === "draft" ? "MEDIA_UPLOAD" : "DIRECT_POST",
+          media_type: "PHOTO",
+        }
+      : {
+          post_info: buildPostInfo(job.caption, job.mode, check.options),
+          source_info: uploadPlan
+            ? {
+                source: "FILE_UPLOAD",
+                video_size: uploadPlan.size,
+                chunk_size: uploadPlan.chunkSize,
+                total_chunk_count: uploadPlan.total,
+              }
+            : { source: "PULL_FROM_URL", video_url: videoUrl },
+        };
 
     if (opts.dry) {
       // Don’t call TikTok—just show what we’d send
-      return json({
-        ok: true,
-        dryRun: true,
-        request: { post_info, source_info }
-      });
+      return {
+        result: {
+          ok: true,
+          dryRun: true,
+          request,
+          creator: {
+            username: creator.data.creator_username,
+            privacyOptions: creator.data.privacy_level_options ?? [],
+          },
+          ...(media ? { media } : {}),
+          ...(warnings.length ? { warnings } : {}),
+          caption: job.caption,
+          callbackUrl: job.callback_url ?? null
+        },
+        status: 200,
+      };
     }
 
-    const initResp = await fetch(env.POST_INIT_URL, {
+    initSent = true;
+    const initResp = await fetch(initUrl, {
       method: "POST",
       headers: {
         authorization: `Bearer ${access}`,
         "content-type": "application/json",
       },
-      body: JSON.stringify({
-        post_info,
-        source_info: { source: "PULL_FROM_URL", video_url: videoUrl },
-      }),
+      body: JSON.stringify(request),
     });
 
     const bodyText = await safeText(initResp);
@@ -512,11 +992,45 @@ async function webhook(req: Request, env: Env, opts: { dry?: boolean } = {}) {
     if (initResp.ok) {
       result = {
         ok: true,
-        status: publishMode === "draft" ? "draft_accepted" : "accepted",
+        status: job.mode === "draft" ? "draft_accepted" : "accepted",
         tiktok: payload ?? { raw: bodyText },
       };
+      const publishId = payload?.data?.publish_id;
+      if (publishId) {
+        await recordPublish(env, openId, publishId, {
+          type: job.type ?? "video",
+          mode: job.mode,
+          api_hash: job.api_hash,
+          callback_url: job.callback_url ?? null,
+          job: historyJobFields(job),
+        });
+        result.statusUrl = `/status/${encodeURIComponent(publishId)}`;
+      }
+      if (uploadPlan) {
+        const uploadUrl = payload?.data?.upload_url;
+        if (!publishId || !uploadUrl) throw new Error("TikTok init returned no upload_url");
+        const upload = await runUpload(env, await startUpload(env, {
+          open_id: openId,
+          publish_id: publishId,
+          key: job.key,
+          upload_url: uploadUrl,
+          size: uploadPlan.size,
+          chunk_size: uploadPlan.chunkSize,
+          total: uploadPlan.total,
+          content_type: uploadPlan.contentType,
+        }));
+        result.upload = uploadView(upload);
+        // TikTok never publishes a half-uploaded video, so after a transient failure a fresh init is safe
+        if (upload.status === "failed") {
+          result.ok = false;
+          result.status = "failed";
+          result.error = { code: "upload_failed", message: upload.error };
+          Object.assign(result, retryFields({ retryable: !!upload.retryable }));
+        }
+      }
     } else {
       const err = payload?.error ?? payload ?? { message: bodyText };
+      const retry = classifyTikTokFailure(initResp, err.code);
       result = {
         ok: false,
         status: "failed",
@@ -525,71 +1039,3071 @@ async function webhook(req: Request, env: Env, opts: { dry?: boolean } = {}) {
           message: err.message ?? String(bodyText),
           log_id: payload?.log_id,
         },
+        ...retryFields(retry),
       };
     }
 
-    if (idempotencyKey) {
-      await env.TOKENS_KV.put(
-        `idem:${openId}:${idempotencyKey}`,
-        JSON.stringify(result),
-        { expirationTtl: 86400 }
-      );
-    }
-    return json(result, initResp.ok ? 200 : 400);
+    if (!result.retryable) await storeIdempotentResult(env, job, result);
+    return { result, status: result.ok ? 200 : result.retryable ? 503 : initResp.ok ? 502 : 400 };
 
   } catch (err: any) {
-    const result = { ok: false, error: String(err) };
-    if (idempotencyKey) {
-      await env.TOKENS_KV.put(
-        `idem:${openId}:${idempotencyKey}`,
-        JSON.stringify(result),
-        { expirationTtl: 86400 }
-      );
-    }
-    return json(result, 500);
+    // Before the init request went out nothing was posted, so network and token-endpoint hiccups can be
+    // retried. Once it was sent TikTok may have accepted the post, and a retry could publish it twice.
+    const tok = initSent ? undefined : await readTokenRecord(env, `tok:open:${openId}`).catch(() => undefined);
+    const retryable = !initSent && !!tok && !tok.needs_reauth;
+    const result = { ok: false, error: String(err), ...retryFields({ retryable }) };
+    if (!retryable) await storeIdempotentResult(env, job, result);
+    return { result, status: retryable ? 503 : 500 };
   }
 }
 
-async function getAccessTokenFor(env: Env, kvKey: string): Promise<string> {
-  const raw = await env.TOKENS_KV.get(kvKey);
-  if (!raw) throw new Error("Not authorised for this account. Connect TikTok first.");
-  let tok = JSON.parse(raw);
-  const issuedAt = tok.obtained_at ?? Date.now();
-  const expiresIn = tok.expires_in ?? 3600;
-  const expiresAt = issuedAt + (expiresIn - 120) * 1000; // refresh 2 min early
-  if (Date.now() < expiresAt && tok.access_token) return tok.access_token;
+// ---- Idempotency ----
+// idem:<open_id>:<key> → { state: "done", fingerprint, result } for 24h once a request stored its result.
+// While a request holds the key, the claim lives in that key's IdempotencyLock (or, without the binding,
+// in KV as { state: "in_progress", fingerprint, owner }).
+// Entries written before fingerprints existed are the bare result and replay without a check.
+const IDEM_KEY_MAX = 255;
+const IDEM_RESULT_TTL = 86400;
+const IDEM_INFLIGHT_TTL = 900;   // longer than an inline FILE_UPLOAD; a crashed request frees the key after this
 
-  const body = new URLSearchParams({
-    client_key: env.TIKTOK_CLIENT_KEY,
-    client_secret: env.TIKTOK_CLIENT_SECRET,
-    grant_type: "refresh_token",
-    refresh_token: tok.refresh_token
-  });
-  const r = await fetch(env.TOKEN_URL, {
-    method: "POST",
-    headers: { "content-type": "application/x-www-form-urlencoded" },
-    body
-  });
-  if (!r.ok) throw new Error(`Refresh failed: ${await safeText(r)}`);
-  const data = await r.json();
-  tok = { ...tok, ...data, obtained_at: Date.now() };
-  await env.TOKENS_KV.put(kvKey, JSON.stringify(tok));
-  return tok.access_token;
+// Sorted keys, undefined dropped: the same request always serialises the same way
+function canonicalJson(v: any): string {
+  if (Array.isArray(v)) return `[${v.map(canonicalJson).join(",")}]`;
+  if (v && typeof v === "object") {
+    return `{${Object.keys(v).sort().filter((k) => v[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson(v[k])}`).join(",")}}`;
+  }
+  return JSON.stringify(v ?? null);
 }
 
-function tryParse(s: string) {
-  try { return JSON.parse(s); } catch { return null; }
+// Fingerprint of the validated job (resolved keys, defaulted options), not of the raw body, so
+// formatting differences and equivalent inputs (id vs url) don't count as a different request.
+// Which API key sent it and where the result is delivered aren't part of the post: a retry after a key
+// rotation or with a new callbackUrl is still the same request.
+function requestFingerprint(job: PostJob, publishAt: number | undefined) {
+  const { idempotency_key, idempotency_fingerprint, client_ip, submitted_at, api_hash, callback_url, ...rest } = job;
+  return sha256Base64Url(canonicalJson({ ...rest, publish_at: publishAt }));
 }
-async function safeText(r: Response) {
-  try { return await r.text(); } catch { return ""; }
+
+function idempotentReplay(existing: any, fingerprint: string | undefined): { result: any; status: number } {
+  if (!existing.state) return { result: existing, status: 200 };
+  if (existing.fingerprint && fingerprint && existing.fingerprint !== fingerprint) {
+    return {
+      result: { ok: false, error: "idempotency_key_mismatch", message: "This idempotency key was already used for a different request" },
+      status: 422,
+    };
+  }
+  if (existing.state === "in_progress") {
+    return { result: { ok: false, error: "in_progress", message: "A request with this idempotency key is still being processed" }, status: 409 };
+  }
+  return { result: existing.result, status: 200 };
 }
 
-// ---- Rate limit helper (KV-based, fixed window) ----
-async function enforceRate(
+// Claims for one idem:<open_id>:<key> go through a single IdempotencyLock, so only one request can hold
+// the key. Without the binding (e.g. a plain `wrangler dev`) we fall back to KV, which has no
+// compare-and-set: write our marker, then read it back. Two requests racing inside the same instant can
+// then still both win, but a retry arriving while the first call is waiting on TikTok is caught.
+async function claimIdempotencyKey(
   env: Env,
-  key: string,       // e.g. "rk:newkey:IP"
-  limit: number,     // max requests per window
-  windowSec: number  // window size in seconds (e.g. 3600 = 1h)
+  idemKey: string,
+  fingerprint: string
+): Promise<{ owner: string } | { existing: any }> {
+  if (!env.IDEMPOTENCY_LOCK) {
+    const owner = crypto.randomUUID();
+    await env.TOKENS_KV.put(idemKey, JSON.stringify({ state: "in_progress", fingerprint, owner, at: Date.now() }), {
+      expirationTtl: IDEM_INFLIGHT_TTL,
+    });
+    const check = tryParse((await env.TOKENS_KV.get(idemKey)) || "");
+    return check?.owner === owner ? { owner } : { existing: { state: "in_progress", fingerprint: check?.fingerprint } };
+  }
+
+  const out = await idempotencyLock(env, idemKey, { op: "claim", fingerprint });
+  if (out.owner) return { owner: out.owner };
+  // "done": the result is in KV, unless it hasn't reached this location yet; until then it's in progress
+  const stored = out.state === "done" ? tryParse((await env.TOKENS_KV.get(idemKey)) || "") : undefined;
+  return { existing: stored ?? { state: "in_progress", fingerprint: out.fingerprint } };
+}
+
+// Give the key back if no result was stored (retryable failure, rejected options…) so it can be reused
+async function releaseIdempotencyKey(env: Env, idemKey: string, owner: string) {
+  const cur = tryParse((await env.TOKENS_KV.get(idemKey)) || "");
+  if (env.IDEMPOTENCY_LOCK) {
+    await idempotencyLock(env, idemKey, { op: "release", owner, done: cur?.state === "done" });
+    return;
+  }
+  if (cur?.state === "in_progress" && cur.owner === owner) await env.TOKENS_KV.delete(idemKey);
+}
+
+type IdempotencyLockOp = { op: "claim"; fingerprint: string } | { op: "release"; owner: string; done: boolean };
+
+async function idempotencyLock(env: Env, idemKey: string, op: IdempotencyLockOp) {
+  const stub = env.IDEMPOTENCY_LOCK!.get(env.IDEMPOTENCY_LOCK!.idFromName(idemKey));
+  const r = await stub.fetch("https://idempotency-lock/", { method: "POST", body: JSON.stringify(op) });
+  return await r.json() as { owner?: string; state?: "in_progress" | "done"; fingerprint?: string };
+}
+
+type IdempotencyClaim = { state: "in_progress" | "done"; fingerprint: string; owner?: string; until: number };
+
+// One instance per idem:<open_id>:<key>. Requests to an object are serialised, so claim is a real
+// compare-and-set. After the holder stored a result the key stays "done" for IDEM_RESULT_TTL: a retry
+// that still reads the pre-result KV value gets in_progress instead of posting a second time.
+export class IdempotencyLock {
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(req: Request) {
+    const op = await req.json() as IdempotencyLockOp;
+    const now = Date.now();
+    const cur = await this.state.storage.get<IdempotencyClaim>("claim");
+    const live = cur && cur.until > now ? cur : undefined;
+
+    if (op.op === "claim") {
+      if (live) return Response.json({ state: live.state, fingerprint: live.fingerprint });
+      const owner = crypto.randomUUID();
+      // A request that dies while holding the key frees it after IDEM_INFLIGHT_TTL
+      await this.hold({ state: "in_progress", fingerprint: op.fingerprint, owner, until: now + IDEM_INFLIGHT_TTL * 1000 });
+      return Response.json({ owner });
+    }
+
+    if (live?.state === "in_progress" && live.owner === op.owner) {
+      if (op.done) await this.hold({ state: "done", fingerprint: live.fingerprint, until: now + IDEM_RESULT_TTL * 1000 });
+      else await this.state.storage.deleteAll();
+    }
+    return Response.json({});
+  }
+
+  private async hold(claim: IdempotencyClaim) {
+    await this.state.storage.put("claim", claim);
+    await this.state.storage.setAlarm(claim.until);
+  }
+
+  async alarm() {
+    await this.state.storage.deleteAll();
+  }
+}
+
+// Media problems we can't judge (WebM, host without range support…) are left to TikTok with a warning
+async function probeJobVideo(
+  env: Env,
+  key: string,
+  url: string | undefined,
+  maxDurationSec: number | undefined
+): Promise<{ meta?: VideoMeta; warning?: string } | { notFound: true } | { issues: { code: string; message: string }[]; meta: VideoMeta }> {
+  if (/\.webm$/i.test(key)) return { warning: "media check skipped: WebM metadata is not inspected" };
+  const probed = await makeMediaProbe({ MEDIA_BUCKET: env.MEDIA_BUCKET }).probeVideo({ key, url });
+  if ("error" in probed) {
+    if (probed.error.code === "object_not_found") return { notFound: true };
+    return { warning: `media check skipped: ${probed.error.message}` };
+  }
+  const issues = checkVideoLimits(probed.meta, { maxDurationSec });
+  return issues.length ? { issues, meta: probed.meta } : { meta: probed.meta };
+}
+
+async function storeIdempotentResult(env: Env, job: PostJob, result: any) {
+  if (!job.idempotency_key) return;
+  await env.TOKENS_KV.put(`idem:${job.open_id}:${job.idempotency_key}`, JSON.stringify({
+    state: "done",
+    fingerprint: job.idempotency_fingerprint,
+    result,
+  }), { expirationTtl: IDEM_RESULT_TTL });
+}
+
+// ---- Batch posting ----
+// batch:<batch_id> → { id, api_hash, open_id, items: [per-item result] } for a week; items point at
+// their publish record (synchronous) or init job (async), which GET /webhook/batch/:id re-reads.
+// Written before the first init and updated as items finish; items not sent yet are { index, status: "pending" }.
+const BATCH_MAX_ITEMS = 20;
+const BATCH_TTL = 7 * 86400;
+const BATCH_SAVE_INTERVAL_MS = 1000;  // KV allows ~1 write/s per key
+const TIKTOK_INITS_PER_MIN = 6;   // TikTok's per-user cap on init calls
+
+async function webhookBatch(req: Request, env: Env, ctx: ExecutionContext, opts: { dry?: boolean } = {}) {
+  const auth = await authenticate(req, env);
+  if (auth instanceof Response) return auth;
+  const scopes: KeyScopes = auth.apiMeta.scopes ?? {};
+  const cfg = webhookRateLimit(env, scopes);
+  const rl = await enforceRate(env, `rk:webhook:${auth.hash}`, cfg.limit, cfg.windowSec);
+  if (!rl.allowed) return ratelimitedJson(rl);
+  touchApiKey(env, ctx, auth.hash, auth.apiMeta);
+
+  // Batch-level fields (account, mode, privacy, callbackUrl, async…) are defaults for every item
+  const body: any = await req.json().catch(() => ({}));
+  const { items, ...defaults } = body;
+  if (!Array.isArray(items) || !items.length || items.length > BATCH_MAX_ITEMS) {
+    return json({ ok: false, error: `items must be an array of 1–${BATCH_MAX_ITEMS} posts` }, 400);
+  }
+  if (defaults.accounts !== undefined) return json({ ok: false, error: "a batch posts to one account; use 'account'" }, 400);
+
+  // Validate everything before anything is sent
+  const parsedItems: { baseJob: Omit<PostJob, "open_id">; targets: LinkedAccount[]; at: number | undefined; asyncMode: boolean }[] = [];
+  const errors = [];
+  const seenKeys = new Set<string>();
+  for (const [index, item] of items.entries()) {
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push({ index, error: "item must be an object" });
+      continue;
+    }
+    if (item.account !== undefined || item.accounts !== undefined) {
+      errors.push({ index, error: "set 'account' on the batch, not on items" });
+      continue;
+    }
+    const parsed = await parsePostRequest(env, auth, { ...defaults, ...item }, {
+      dry: !!opts.dry,
+      asyncRequested: /\brespond-async\b/i.test(req.headers.get("prefer") ?? ""),
+      clientIp: getClientIp(req),
+    });
+    if ("error" in parsed) {
+      errors.push({ index, httpStatus: parsed.status, ...parsed.error });
+      continue;
+    }
+    const idem = parsed.baseJob.idempotency_key;
+    if (idem !== undefined && seenKeys.has(idem)) {
+      errors.push({ index, error: "duplicate_idempotency_key", message: `idempotencyKey ${idem} is used twice in this batch` });
+      continue;
+    }
+    if (idem !== undefined) seenKeys.add(idem);
+    parsedItems.push(parsed);
+  }
+  if (errors.length) return json({ ok: false, error: "invalid_batch", errors }, 400);
+
+  // Without POST_QUEUE every immediate item is sent inline, and TikTok only takes TIKTOK_INITS_PER_MIN a minute
+  const immediateCount = parsedItems.filter((p) => !p.asyncMode && p.at === undefined).length;
+  if (!env.POST_QUEUE && immediateCount > TIKTOK_INITS_PER_MIN) {
+    return json({
+      ok: false,
+      error: "batch_too_large",
+      message: `Without a queue a batch can send at most ${TIKTOK_INITS_PER_MIN} posts at once; split it into smaller batches or bind POST_QUEUE and use async`,
+    }, 400);
+  }
+
+  const account = parsedItems[0].targets[0];
+
+  // One token and one creator_info for every item sent now (queued and scheduled items fetch their own)
+  let prefetched: { access: string; creator: any } | undefined;
+  if (parsedItems.some((p) => !p.asyncMode && p.at === undefined)) {
+    try {
+      const access = await getAccessTokenFor(env, `tok:open:${account.open_id}`);
+      const creator = await queryCreatorInfo(env, access);
+      if ("error" in creator) {
+        return json({ ok: false, status: "failed", error: creator.error, ...retryFields(creator.retry) }, creator.retry.retryable ? 503 : 502);
+      }
+      prefetched = { access, creator: creator.data };
+    } catch (err: any) {
+      return json({ ok: false, error: String(err) }, 500);
+    }
+  }
+
+  // The record exists before the first init, so a request that dies part-way still leaves
+  // GET /webhook/batch/:id showing what was sent. Updates closer together than KV allows are skipped;
+  // the final one waits its turn.
+  const batchId = opts.dry ? null : crypto.randomUUID();
+  const createdAt = Date.now();
+  const results: any[] = [];
+  let savedAt = 0;
+  const saveBatch = async (final: boolean) => {
+    if (!batchId) return;
+    const wait = savedAt + BATCH_SAVE_INTERVAL_MS - Date.now();
+    if (wait > 0 && !final) return;
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    const pending = parsedItems.slice(results.length).map((_, i) => ({ index: results.length + i, status: "pending" }));
+    await env.TOKENS_KV.put(`batch:${batchId}`, JSON.stringify({
+      id: batchId,
+      api_hash: auth.hash,
+      open_id: account.open_id,
+      created_at: createdAt,
+      items: [...results, ...pending],
+    }), { expirationTtl: BATCH_TTL });
+    savedAt = Date.now();
+  };
+  await saveBatch(false);
+
+  // The first TIKTOK_INITS_PER_MIN immediate items are sent inline and the rest are queued a minute
+  // apart instead of holding the request open (larger batches without POST_QUEUE were refused above).
+  // Async items share the same per-minute slots.
+  let sentInline = 0;
+  let slots = 0;
+  for (const [index, p] of parsedItems.entries()) {
+    const immediate = !opts.dry && !p.asyncMode && p.at === undefined;
+    const deferred = immediate && sentInline >= TIKTOK_INITS_PER_MIN;
+    if (immediate && !deferred) sentInline++;
+
+    const queues = p.asyncMode || deferred;
+    const queueDelaySec = queues ? Math.floor(slots / TIKTOK_INITS_PER_MIN) * 60 : undefined;
+    if (immediate || queues) slots++;
+    const { result, status } = await runPostJob(env, { ...p.baseJob, open_id: account.open_id }, p.at, {
+      dry: opts.dry,
+      async: queues,
+      queueDelaySec,
+      account: prefetched,
+    });
+    results.push({ index, httpStatus: status, ...result });
+    await saveBatch(index === parsedItems.length - 1);
+  }
+
+  const succeeded = results.filter((r) => r.ok).length;
+
+  return json({
+    ok: succeeded === results.length,
+    batchId,
+    ...(batchId ? { batchUrl: `/webhook/batch/${encodeURIComponent(batchId)}` } : {}),
+    account: account.label ?? account.open_id,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  }, succeeded === results.length ? 200 : 207);
+}
+
+// GET /webhook/batch/:id — the stored results, with each item's current publish or job status
+async function batchStatus(req: Request, env: Env, batchId: string) {
+  const auth = await authenticate(req, env, { prefix: "rk:status", ...routeRateLimit(env, "STATUS", { limit: 120, windowSec: 60 }) });
+  if (auth instanceof Response) return auth;
+
+  const batch = tryParse((await env.TOKENS_KV.get(`batch:${batchId}`)) || "");
+  if (!batch || (batch.api_hash !== auth.hash && (await currentApiHash(env, batch.api_hash)) !== auth.hash)) {
+    return json({ ok: false, error: "not_found" }, 404);
+  }
+
+  const items = [];
+  for (const item of batch.items) {
+    const publishId = item.tiktok?.data?.publish_id;
+    if (publishId) {
+      const rec = tryParse((await env.TOKENS_KV.get(`pub:${batch.open_id}:${publishId}`)) || "");
+      items.push(rec ? { ...item, publish: publishStatusView(rec) } : item);
+    } else if (item.jobUrl && item.jobId) {
+      const rec = tryParse((await env.TOKENS_KV.get(`initjob:${item.jobId}`)) || "");
+      items.push(rec ? { ...item, ...initJobView(rec) } : item);
+    } else {
+      items.push(item);
+    }
+  }
+
+  return json({
+    ok: true,
+    batchId: batch.id,
+    createdAt: new Date(batch.created_at).toISOString(),
+    items,
+  });
+}
+
+// ---- Preflight diagnostics ----
+// POST /preflight takes the same media/account/options input as /webhook and reports, step by step,
+// whether a post would get through. Only presigned URLs on CUSTOM_MEDIA_HOST are ever fetched.
+type PreflightCheck = { check: string; ok: boolean | null; detail: string; fix?: string };   // ok: null = skipped
+
+async function preflight(req: Request, env: Env) {
+  const auth = await authenticate(req, env, { prefix: "rk:preflight", ...routeRateLimit(env, "PREFLIGHT", { limit: 20, windowSec: 60 }) });
+  if (auth instanceof Response) return auth;
+
+  const body: any = await req.json().catch(() => ({}));
+  const { id, r2Url, url } = body;
+  if (!id && !r2Url && !url && !body.key) return json({ ok: false, error: "Provide 'id', 'key' or 'r2Url'/'url'" }, 400);
+  if (body.accounts !== undefined) return json({ ok: false, error: "preflight checks one account; use 'account'" }, 400);
+
+  const postOptions = parsePostOptions(body);
+  if (typeof postOptions === "string") return json({ ok: false, error: "invalid_post_options", message: postOptions }, 400);
+  const targets = resolveTargetAccounts(auth.apiMeta, body);
+  if (typeof targets === "string") return json({ ok: false, error: "account_not_linked", message: targets }, 400);
+  const account = targets[0];
+
+  const scopes: KeyScopes = auth.apiMeta.scopes ?? {};
+  const mediaOrigin = new URL(/^https?:\/\//i.test(env.CUSTOM_MEDIA_HOST) ? env.CUSTOM_MEDIA_HOST : `https://${env.CUSTOM_MEDIA_HOST}`).host;
+  // URLs only contribute their object key (unknown hosts are rejected); what we fetch is always the
+  // presigned URL on CUSTOM_MEDIA_HOST
+  const rawUrl = r2Url ?? url;
+  let key: string;
+  let signer: ReturnType<typeof makeSigner>;
+  try {
+    signer = makeSigner(signerEnv(env));
+    key = await signer.resolveKeyProbing({ id, url: rawUrl, key: body.key }, (k) => objectExists(env, signer, k), { prefix: scopes.idPrefix });
+  } catch (err: any) {
+    return json({ ok: false, error: String(err) }, 400);
+  }
+
+  const checks: PreflightCheck[] = [];
+  const add = (check: string, ok: boolean | null, detail: string, fix?: string) =>
+    checks.push({ check, ok, detail, ...(ok === false && fix ? { fix } : {}) });
+
+  // Media: existence, signature, content type and range support from one ranged GET of the presigned URL
+  const presigned = await signer.presignGet({ key, expires: 300 });
+  let range: Response | undefined;
+  try {
+    range = await fetch(presigned, { headers: { Range: "bytes=0-0" } });
+    await range.body?.cancel();
+  } catch (e: any) {
+    add("presigned_url", false, `Could not reach ${mediaOrigin}: ${String(e?.message ?? e)}`,
+      "Check that CUSTOM_MEDIA_HOST resolves and is connected to the R2 bucket.");
+  }
+
+  const head = env.MEDIA_BUCKET ? await env.MEDIA_BUCKET.head(key) : undefined;
+  const exists = head !== undefined ? !!head : range?.ok ? true : range?.status === 404 ? false : null;
+  add("object_exists", exists, exists === null ? "Unknown: the media host could not be read" : exists ? `Found ${key}` : `No object at ${key}`,
+    "Upload the file first, or check the id/URL (ids map to <id>.mp4).");
+
+  if (range) {
+    if (range.status === 404 && head) {
+      add("presigned_url", false, `${key} is in MEDIA_BUCKET but ${mediaOrigin} answered 404`,
+        "Connect CUSTOM_MEDIA_HOST to the same bucket as MEDIA_BUCKET / R2_BUCKET.");
+    } else if (range.status === 404) {
+      add("presigned_url", null, "Skipped: object not found");
+    } else {
+      add("presigned_url", range.ok, `Presigned GET answered ${range.status}`,
+        "Check R2_ACCESS_KEY_ID / R2_SECRET_ACCESS_KEY and that CUSTOM_MEDIA_HOST serves R2_BUCKET.");
+    }
+
+    const contentType = head?.httpMetadata?.contentType ?? (range.ok ? range.headers.get("content-type") : null);
+    add("content_type", contentType ? contentType.startsWith("video/") : null,
+      contentType ? `Content-Type is ${contentType}` : "Skipped: no Content-Type available",
+      "Re-upload with a video Content-Type (e.g. video/mp4); TikTok rejects other types.");
+
+    add("range_requests", range.ok ? range.status === 206 : null,
+      range.status === 206 ? "Host honours Range requests" : range.ok ? "Host ignored the Range header" : "Skipped: object not readable",
+      "TikTok fetches videos in ranges; check cache rules or Workers in front of CUSTOM_MEDIA_HOST.");
+  }
+
+  // Account: token present and usable, then creator_info and the requested privacy level
+  let access: string | undefined;
+  const disc = await env.TOKENS_KV.get(`disc:open:${account.open_id}`);
+  if (disc) {
+    add("token", false, disconnectedMessage(account, tryParse(disc)), "Connect TikTok again with POST /accounts/link.");
+  } else {
+    try {
+      const before = await readTokenRecord(env, `tok:open:${account.open_id}`);
+      access = await getAccessTokenFor(env, `tok:open:${account.open_id}`);
+      add("token", true, before && !tokenValidFor(before, TOKEN_REFRESH_EARLY_MS) ? "Access token was expired and has been refreshed" : "Access token is valid");
+    } catch (e: any) {
+      add("token", false, String(e?.message ?? e), "Reconnect TikTok with POST /accounts/link.");
+    }
+  }
+
+  let creator: any;
+  if (!access) {
+    add("creator_info", null, "Skipped: no usable token");
+  } else {
+    const info = await queryCreatorInfo(env, access);
+    if ("error" in info) {
+      add("creator_info", false, `${info.error.code}: ${info.error.message}`,
+        info.retry.retryable ? "TikTok is having trouble; try again shortly." : "Check that the app has the video.publish scope and the account can post.");
+    } else {
+      creator = info.data;
+      add("creator_info", true, `Posting as @${creator.creator_username ?? "?"}`);
+    }
+  }
+
+  if (!creator) {
+    add("privacy_allowed", null, "Skipped: creator_info unavailable");
+  } else {
+    const check = checkPostOptions(postOptions, creator);
+    add("privacy_allowed", !("error" in check),
+      "error" in check ? check.error.message : `${postOptions.privacy} is allowed`,
+      `Use one of: ${(creator.privacy_level_options ?? []).join(", ")}`);
+  }
+
+  if (exists && range?.ok) {
+    const probed = await probeJobVideo(env, key, presigned, creator?.max_video_post_duration_sec);
+    if ("issues" in probed) add("media_valid", false, probed.issues.map((i) => i.message).join("; "), "Re-encode the video within TikTok's limits.");
+    else if ("meta" in probed && probed.meta) add("media_valid", true, `${probed.meta.width}x${probed.meta.height}, ${probed.meta.durationSec.toFixed(1)}s, ${probed.meta.videoCodec}`);
+    else add("media_valid", null, "warning" in probed ? probed.warning : "Skipped");
+  }
+
+  return json({
+    ok: checks.every((c) => c.ok !== false),
+    key,
+    account: account.label ?? account.open_id,
+    checks,
+  });
+}
+
+// ---- Post options (post_info) ----
+type PostOptions = {
+  privacy: string;
+  allowDuet: boolean;
+  allowStitch: boolean;
+  allowComments: boolean;
+  brandedContent: boolean;        // paid partnership with a third-party brand
+  brandOrganic: boolean;          // promoting the creator's own business
+  videoCoverTimestampMs?: number;
+};
+
+const PRIVACY_LEVELS = ["PUBLIC_TO_EVERYONE", "MUTUAL_FOLLOW_FRIENDS", "FOLLOWER_OF_CREATOR", "SELF_ONLY"];
+
+// Defaults match what we always sent before these fields existed
+const DEFAULT_POST_OPTIONS: PostOptions = {
+  privacy: "SELF_ONLY",
+  allowDuet: true,
+  allowStitch: true,
+  allowComments: true,
+  brandedContent: false,
+  brandOrganic: false,
+};
+
+// Returns validated options, or an error message
+function parsePostOptions(body: any): PostOptions | string {
+  const out: PostOptions = { ...DEFAULT_POST_OPTIONS };
+
+  if (body.privacy !== undefined) {
+    const p = String(body.privacy).toUpperCase();
+    if (!PRIVACY_LEVELS.includes(p)) return `privacy must be one of ${PRIVACY_LEVELS.join(", ")}`;
+    out.privacy = p;
+  }
+  for (const f of ["allowDuet", "allowStitch", "allowComments", "brandedContent", "brandOrganic"] as const) {
+    if (body[f] === undefined) continue;
+    if (typeof body[f] !== "boolean") return `${f} must be a boolean`;
+    out[f] = body[f];
+  }
+  if (body.videoCoverTimestampMs !== undefined) {
+    const ms = body.videoCoverTimestampMs;
+    if (!Number.isInteger(ms) || ms < 0) return "videoCoverTimestampMs must be a non-negative integer";
+    out.videoCoverTimestampMs = ms;
+  }
+  // TikTok rejects branded content that only the creator can see
+  if (out.brandedContent && out.privacy === "SELF_ONLY") {
+    return "brandedContent cannot be combined with privacy SELF_ONLY";
+  }
+  return out;
+}
+
+// Photo posts have no duet/stitch/cover-frame; draft vs publish is post_mode, not is_draft
+function buildPhotoPostInfo(caption: string, description: string | undefined, o: PostOptions): Record<string, any> {
+  return {
+    title: caption,
+    ...(description ? { description } : {}),
+    privacy_level: o.privacy,
+    disable_comment: !o.allowComments,
+    brand_content_toggle: o.brandedContent,
+    brand_organic_toggle: o.brandOrganic,
+  };
+}
+
+function buildPostInfo(caption: string, mode: string, o: PostOptions): Record<string, any> {
+  return {
+    title: caption,
+    privacy_level: o.privacy,
+    disable_duet: !o.allowDuet,
+    disable_stitch: !o.allowStitch,
+    disable_comment: !o.allowComments,
+    brand_content_toggle: o.brandedContent,
+    brand_organic_toggle: o.brandOrganic,
+    ...(o.videoCoverTimestampMs !== undefined ? { video_cover_timestamp_ms: o.videoCoverTimestampMs } : {}),
+    ...(mode === "draft" ? { is_draft: true } : {})
+  };
+}
+
+async function queryCreatorInfo(env: Env, access: string): Promise<{ ok: true; data: any } | { ok: false; error: any; retry: RetryHint }> {
+  const r = await fetch(env.CREATOR_INFO_URL, {
+    method: "POST",
+    headers: {
+      authorization: `Bearer ${access}`,
+      "content-type": "application/json; charset=UTF-8",
+    },
+  });
+  const text = await safeText(r);
+  const payload = tryParse(text);
+  if (!r.ok || (payload?.error?.code && payload.error.code !== "ok")) {
+    return {
+      ok: false,
+      error: {
+        code: payload?.error?.code ?? "creator_info_failed",
+        message: payload?.error?.message ?? (text || `creator_info returned ${r.status}`),
+        log_id: payload?.error?.log_id,
+      },
+      retry: classifyTikTokFailure(r, payload?.error?.code),
+    };
+  }
+  return { ok: true, data: payload?.data ?? {} };
+}
+
+// Privacy must be one the account offers; interactions the creator switched off stay off.
+function checkPostOptions(o: PostOptions, creator: any, mediaType: "video" | "photo" = "video"):
+  { ok: true; options: PostOptions; warnings: string[] } | { ok: false; error: any } {
+  const allowed: string[] = creator.privacy_level_options ?? [];
+  if (allowed.length && !allowed.includes(o.privacy)) {
+    return {
+      ok: false,
+      error: {
+        code: "privacy_not_allowed",
+        message: `privacy ${o.privacy} is not available for this account`,
+        allowed,
+      },
+    };
+  }
+
+  const options = { ...o };
+  const warnings: string[] = [];
+  if (mediaType === "video" && options.allowDuet && creator.duet_disabled) { options.allowDuet = false; warnings.push("duet is disabled in the creator's settings"); }
+  if (mediaType === "video" && options.allowStitch && creator.stitch_disabled) { options.allowStitch = false; warnings.push("stitch is disabled in the creator's settings"); }
+  if (options.allowComments && creator.comment_disabled) { options.allowComments = false; warnings.push("comments are disabled in the creator's settings"); }
+  return { ok: true, options, warnings };
+}
+
+// ---- FILE_UPLOAD (chunked PUT from MEDIA_BUCKET) ----
+// upl:<open_id>:<publish_id> → upload progress; next_chunk only advances after TikTok confirms a chunk,
+// so a cut-off invocation is picked up by resumeUploads() on the next cron tick.
+const UPLOAD_MAX_CHUNK = 64 * 1024 * 1024;      // TikTok: chunks are 5–64MB; anything up to 64MB goes in one piece
+const UPLOAD_DEFAULT_CHUNK = 10 * 1024 * 1024;
+const UPLOAD_MAX_CHUNKS = 1000;
+const UPLOAD_CHUNK_RETRIES = 3;
+const UPLOAD_URL_TTL = 3600;                    // TikTok's upload_url is valid for an hour
+const UPLOAD_STALE_MS = 2 * 60 * 1000;          // untouched this long → assume the uploader died
+
+type UploadState = {
+  open_id: string;
+  publish_id: string;
+  key: string;
+  upload_url: string;
+  size: number;
+  chunk_size: number;
+  total: number;
+  content_type: string;
+  next_chunk: number;
+  status: "uploading" | "complete" | "failed";
+  error?: string;
+  retryable?: boolean;                          // failed: the last chunk error was transient, so a fresh init may succeed
+  created_at: number;
+  updated_at: number;
+};
+
+// TikTok checks total_chunk_count === floor(video_size / chunk_size), so chunk_size may never exceed the
+// file: up to UPLOAD_MAX_CHUNK it is one chunk of exactly the file size. Beyond that the last chunk
+// absorbs the remainder (≤ 2× chunk size, well under TikTok's 128MB cap).
+function planChunks(size: number) {
+  if (size <= UPLOAD_MAX_CHUNK) return { chunkSize: size, total: 1 };
+  const chunkSize = Math.min(UPLOAD_MAX_CHUNK, Math.max(UPLOAD_DEFAULT_CHUNK, Math.ceil(size / UPLOAD_MAX_CHUNKS)));
+  return { chunkSize, total: Math.max(1, Math.floor(size / chunkSize)) };
+}
+
+function videoContentType(key: string) {
+  if (/\.mov$/i.test(key)) return "video/quicktime";
+  if (/\.webm$/i.test(key)) return "video/webm";
+  return "video/mp4";
+}
+
+async function startUpload(
+  env: Env,
+  init: Omit<UploadState, "next_chunk" | "status" | "created_at" | "updated_at">
+): Promise<UploadState> {
+  const now = Date.now();
+  const state: UploadState = { ...init, next_chunk: 0, status: "uploading", created_at: now, updated_at: now };
+  await saveUpload(env, state);
+  return state;
+}
+
+async function saveUpload(env: Env, state: UploadState) {
+  await env.TOKENS_KV.put(`upl:${state.open_id}:${state.publish_id}`, JSON.stringify(state), {
+    expirationTtl: UPLOAD_URL_TTL,
+  });
+}
+
+// PUT chunks from next_chunk onwards, persisting progress after each confirmed chunk.
+async function runUpload(env: Env, state: UploadState): Promise<UploadState> {
+  if (!env.MEDIA_BUCKET) throw new Error("MEDIA_BUCKET binding is not configured");
+
+  while (state.next_chunk < state.total) {
+    const i = state.next_chunk;
+    const start = i * state.chunk_size;
+    const end = i === state.total - 1 ? state.size - 1 : start + state.chunk_size - 1;
+
+    let lastError = "";
+    let lastRetry: RetryHint = { retryable: false };
+    let confirmed = false;
+    for (let attempt = 0; attempt < UPLOAD_CHUNK_RETRIES && !confirmed; attempt++) {
+      try {
+        const obj = await env.MEDIA_BUCKET.get(state.key, { range: { offset: start, length: end - start + 1 } });
+        if (!obj) {
+          lastError = `chunk ${i + 1}/${state.total} → No R2 object at ${state.key}`;
+          lastRetry = { retryable: false };
+          break;
+        }
+        const r = await fetch(state.upload_url, {
+          method: "PUT",
+          headers: {
+            "content-type": state.content_type,
+            "content-length": String(end - start + 1),
+            "content-range": `bytes ${start}-${end}/${state.size}`,
+          },
+          body: await obj.arrayBuffer(),
+        });
+        // 206 = chunk accepted, 201 = upload complete
+        if (r.status === 206 || r.status === 201 || r.ok) {
+          confirmed = true;
+        } else {
+          lastError = `chunk ${i + 1}/${state.total} → ${r.status} ${(await safeText(r)).slice(0, 200)}`;
+          lastRetry = classifyTikTokFailure(r);
+        }
+      } catch (e: any) {
+        lastError = `chunk ${i + 1}/${state.total} → ${String(e?.message ?? e)}`;
+        lastRetry = { retryable: true };
+      }
+    }
+
+    state.updated_at = Date.now();
+    if (!confirmed) {
+      state.status = "failed";
+      state.error = lastError;
+      state.retryable = lastRetry.retryable;
+      await saveUpload(env, state);
+      return state;
+    }
+    state.next_chunk = i + 1;
+    if (state.next_chunk >= state.total) state.status = "complete";
+    await saveUpload(env, state);
+  }
+  return state;
+}
+
+function uploadView(state: UploadState) {
+  return {
+    status: state.status,
+    chunksUploaded: state.next_chunk,
+    totalChunks: state.total,
+    bytes: state.size,
+    ...(state.error ? { error: state.error } : {}),
+  };
+}
+
+// Pick up uploads whose invocation was cut off (called from the frequent cron).
+async function resumeUploads(env: Env) {
+  if (!env.MEDIA_BUCKET) return;
+  const now = Date.now();
+  let cursor: string | undefined;
+  let resumed = 0;
+
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: "upl:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      const state = tryParse((await env.TOKENS_KV.get(k.name)) || "") as UploadState | null;
+      if (!state || state.status !== "uploading" || now - state.updated_at < UPLOAD_STALE_MS) continue;
+      // Claim it before uploading so the next tick leaves it alone
+      state.updated_at = now;
+      await saveUpload(env, state);
+      resumed++;
+      const done = await runUpload(env, state);
+      console.log(`Upload ${done.publish_id}: ${done.status} (${done.next_chunk}/${done.total})`);
+    }
+  } while (cursor);
+
+  console.log(`Upload resume done. Resumed=${resumed}`);
+}
+
+// ---- Captions ----
+// api:<hash>.caption = { template?, hashtags?, overflow? } set with POST /keys/caption.
+// TikTok counts title length in UTF-16 code units (what String.length gives us); truncation cuts at
+// grapheme boundaries so emoji and accented letters are never split.
+const CAPTION_MAX_VIDEO = 2200;
+const CAPTION_MAX_PHOTO = 90;
+const CAPTION_MAX_HASHTAGS = 30;
+const CAPTION_VAR_MAX = 500;
+
+type CaptionSettings = {
+  template?: string;                 // "{{caption}} — {{date}}"; default "{{caption}}"
+  hashtags?: string[];               // merged into every post's hashtags
+  overflow?: "truncate" | "reject";  // default "reject"
+};
+
+const HASHTAG_RE = /^[\p{L}\p{M}\p{N}_]{1,100}$/u;
+// TikTok usernames: 2–24 letters, digits, "_" or ".", not ending in "."
+const MENTION_RE = /^[A-Za-z0-9_.]{2,24}$/;
+
+function normaliseHashtags(raw: unknown, field: string): string[] | string {
+  if (raw === undefined || raw === null) return [];
+  if (!Array.isArray(raw)) return `${field} must be an array of strings`;
+  const out: string[] = [];
+  for (const tag of raw) {
+    if (typeof tag !== "string") return `${field} must be an array of strings`;
+    const t = tag.trim().replace(/^#+/, "");
+    if (!HASHTAG_RE.test(t)) return `invalid hashtag ${JSON.stringify(tag)}: letters, numbers and _ only`;
+    out.push(t);
+  }
+  return out;
+}
+
+// Returns settings to store, undefined to clear, or an error message
+function parseCaptionSettings(body: any): CaptionSettings | undefined | string {
+  const settings: CaptionSettings = {};
+  if (body.template !== undefined && body.template !== null) {
+    if (typeof body.template !== "string" || !body.template.trim()) return "template must be a non-empty string (or null)";
+    if (body.template.length > CAPTION_MAX_VIDEO) return `template must be at most ${CAPTION_MAX_VIDEO} characters`;
+    settings.template = body.template;
+  }
+  const tags = normaliseHashtags(body.hashtags, "hashtags");
+  if (typeof tags === "string") return tags;
+  if (tags.length > CAPTION_MAX_HASHTAGS) return `at most ${CAPTION_MAX_HASHTAGS} default hashtags`;
+  if (tags.length) settings.hashtags = tags;
+  if (body.overflow !== undefined && body.overflow !== null) {
+    if (body.overflow !== "truncate" && body.overflow !== "reject") return "overflow must be 'truncate' or 'reject'";
+    settings.overflow = body.overflow;
+  }
+  return Object.keys(settings).length ? settings : undefined;
+}
+
+// {{name}} placeholders; built-ins (caption, id, key, date) can't be overridden by request vars
+function renderCaptionTemplate(template: string, vars: Record<string, string>): string | { code: string; message: string } {
+  const missing = new Set<string>();
+  const out = template.replace(/\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g, (_, name) => {
+    if (vars[name] === undefined) missing.add(name);
+    return vars[name] ?? "";
+  });
+  if (missing.size) {
+    return { code: "caption_template_error", message: `caption template uses undefined variables: ${[...missing].join(", ")}` };
+  }
+  return out;
+}
+
+function checkMentions(text: string): { code: string; message: string } | undefined {
+  for (const m of text.matchAll(/(?:^|\s)@(\S+)/g)) {
+    const handle = m[1].replace(/[.,;:!?)\]]+$/, "");
+    if (!MENTION_RE.test(handle)) {
+      return { code: "invalid_mention", message: `@${handle} is not a valid TikTok username (2–24 letters, digits, _ or .)` };
+    }
+  }
+  return undefined;
+}
+
+function truncateGraphemes(text: string, maxUnits: number) {
+  const Segmenter = (Intl as any).Segmenter;
+  const parts: string[] = Segmenter
+    ? [...new Segmenter(undefined, { granularity: "grapheme" }).segment(text)].map((s: any) => s.segment)
+    : [...text];
+  let out = "";
+  for (const p of parts) {
+    if (out.length + p.length > maxUnits) break;
+    out += p;
+  }
+  return out.trimEnd();
+}
+
+// text + " #tag #tag" within max; over the limit either reject or shorten text (hashtags are kept)
+function fitCaption(text: string, tags: string[], max: number, overflow: "truncate" | "reject", what: string):
+  string | { code: string; message: string } {
+  const suffix = tags.map((t) => `#${t}`).join(" ");
+  const joined = [text, suffix].filter(Boolean).join(" ");
+  if (joined.length <= max) return joined;
+  if (overflow === "reject") {
+    return { code: "caption_too_long", message: `${what} is ${joined.length} UTF-16 units; TikTok allows ${max}` };
+  }
+  const room = max - (suffix ? suffix.length + 1 : 0) - 1;   // 1 for the ellipsis
+  if (room < 1) return { code: "caption_too_long", message: `hashtags alone exceed the ${max}-unit ${what} limit` };
+  return [truncateGraphemes(text, room) + "…", suffix].filter(Boolean).join(" ");
+}
+
+// Request fields: caption, vars, hashtags, captionOverflow. Photo posts keep the short title and put
+// hashtags in the description.
+function buildCaption(
+  body: any,
+  settings: CaptionSettings,
+  ctx: { type: "video" | "photo"; id?: string; key?: string; date: string; description?: string }
+): { caption: string; description?: string } | { code: string; message: string } {
+  if (body.caption !== undefined && typeof body.caption !== "string") return { code: "invalid_caption", message: "caption must be a string" };
+  const caption = (body.caption ?? "").replace(/\u0000/g, ""); // strip NULs
+
+  const vars: Record<string, string> = {};
+  if (body.vars !== undefined) {
+    if (!body.vars || typeof body.vars !== "object" || Array.isArray(body.vars)) {
+      return { code: "invalid_caption", message: "vars must be an object of strings" };
+    }
+    for (const [k, v] of Object.entries(body.vars)) {
+      if (!/^[A-Za-z0-9_]{1,32}$/.test(k)) return { code: "invalid_caption", message: `invalid variable name ${JSON.stringify(k)}` };
+      if (typeof v !== "string" && typeof v !== "number") return { code: "invalid_caption", message: `vars.${k} must be a string or number` };
+      vars[k] = String(v).replace(/\u0000/g, "").slice(0, CAPTION_VAR_MAX);
+    }
+  }
+  Object.assign(vars, { caption, id: ctx.id ?? "", key: ctx.key ?? "", date: ctx.date });
+
+  const text = renderCaptionTemplate(settings.template ?? "{{caption}}", vars);
+  if (typeof text !== "string") return text;
+
+  const requested = normaliseHashtags(body.hashtags, "hashtags");
+  if (typeof requested === "string") return { code: "invalid_hashtag", message: requested };
+  // De-duplicate case-insensitively, skipping tags the text already contains
+  const seen = new Set(
+    [...`${text} ${ctx.description ?? ""}`.matchAll(/#([\p{L}\p{M}\p{N}_]+)/gu)].map((m) => m[1].toLowerCase())
+  );
+  const tags: string[] = [];
+  for (const t of [...requested, ...(settings.hashtags ?? [])]) {
+    if (seen.has(t.toLowerCase())) continue;
+    seen.add(t.toLowerCase());
+    tags.push(t);
+  }
+  if (tags.length > CAPTION_MAX_HASHTAGS) {
+    return { code: "invalid_hashtag", message: `at most ${CAPTION_MAX_HASHTAGS} hashtags per post` };
+  }
+
+  const mention = checkMentions(`${text} ${ctx.description ?? ""}`);
+  if (mention) return mention;
+
+  const overflow = body.captionOverflow ?? settings.overflow ?? "reject";
+  if (overflow !== "truncate" && overflow !== "reject") {
+    return { code: "invalid_caption", message: "captionOverflow must be 'truncate' or 'reject'" };
+  }
+  if (ctx.type === "photo") {
+    const title = fitCaption(text.trim(), [], CAPTION_MAX_PHOTO, overflow, "title");
+    if (typeof title !== "string") return title;
+    const description = fitCaption((ctx.description ?? "").trim(), tags, PHOTO_DESCRIPTION_MAX, overflow, "description");
+    if (typeof description !== "string") return description;
+    return { caption: title, description: description || undefined };
+  }
+  const fitted = fitCaption(text.trim(), tags, CAPTION_MAX_VIDEO, overflow, "caption");
+  if (typeof fitted !== "string") return fitted;
+  return { caption: fitted };
+}
+
+// ---- Photo posts ----
+const PHOTO_MAX_IMAGES = 35;
+const PHOTO_EXTENSIONS = /\.(jpe?g|webp)$/i;
+const PHOTO_DESCRIPTION_MAX = 4000;
+
+// images: ordered ids (".jpg" appended when there's no image extension) or R2 URLs
+function parsePhotoInput(
+  body: any,
+  signer: ReturnType<typeof makeSigner>
+): { image_keys: string[]; photo_cover_index: number; description?: string } | string {
+  const images = body.images;
+  if (!Array.isArray(images) || !images.length) return "images must be a non-empty array of R2 image ids or URLs";
+  if (images.length > PHOTO_MAX_IMAGES) return `at most ${PHOTO_MAX_IMAGES} images per photo post`;
+
+  const image_keys: string[] = [];
+  for (const [i, img] of images.entries()) {
+    if (typeof img !== "string" || !img) return `images[${i}] must be a non-empty string`;
+    const isUrl = /^https?:\/\//i.test(img);
+    let key = isUrl ? signer.extractKeyFromUrl(img) : img;
+    if (!PHOTO_EXTENSIONS.test(key)) {
+      if (isUrl) return `images[${i}] must be a .jpg or .webp image`;
+      key = `${key}.jpg`;
+    }
+    image_keys.push(signer.checkKey(key));
+  }
+
+  const cover = body.coverIndex ?? 0;
+  if (!Number.isInteger(cover) || cover < 0 || cover >= image_keys.length) {
+    return `coverIndex must be an integer between 0 and ${image_keys.length - 1}`;
+  }
+
+  let description: string | undefined;
+  if (body.description !== undefined) {
+    if (typeof body.description !== "string") return "description must be a string";
+    description = body.description.replace(/\u0000/g, "");
+    if (description.length > PHOTO_DESCRIPTION_MAX) return `description must be at most ${PHOTO_DESCRIPTION_MAX} characters`;
+  }
+  return { image_keys, photo_cover_index: cover, description };
+}
+
+// ---- Scheduled publishing ----
+// sched:<api_hash>:<job_id>   → scheduled job record (kept for a week after it runs)
+// schedq:<api_hash>:<job_id>  → due-time marker (metadata.publish_at) while status is "scheduled"
+const SCHEDULE_MIN_LEAD_SEC = 60;
+const SCHEDULE_MAX_DAYS = 90;
+const SCHEDULE_DONE_TTL = 7 * 86400;
+
+// Returns epoch ms, or an error message
+function parsePublishAt(raw: unknown): number | string {
+  if (typeof raw !== "string" || !raw) return "publishAt must be an ISO 8601 timestamp";
+  const at = Date.parse(raw);
+  if (Number.isNaN(at)) return "publishAt must be an ISO 8601 timestamp";
+  const now = Date.now();
+  if (at < now + SCHEDULE_MIN_LEAD_SEC * 1000) return `publishAt must be at least ${SCHEDULE_MIN_LEAD_SEC}s in the future`;
+  if (at > now + SCHEDULE_MAX_DAYS * 86400 * 1000) return `publishAt must be within ${SCHEDULE_MAX_DAYS} days`;
+  return at;
+}
+
+async function schedulePost(env: Env, job: PostJob, publishAt: number) {
+  const now = Date.now();
+  const sched = {
+    id: crypto.randomUUID(),
+    job,
+    publish_at: publishAt,
+    status: "scheduled",
+    created_at: now,
+    updated_at: now,
+  };
+  await env.TOKENS_KV.put(`sched:${job.api_hash}:${sched.id}`, JSON.stringify(sched));
+  await env.TOKENS_KV.put(`schedq:${job.api_hash}:${sched.id}`, "", { metadata: { publish_at: publishAt } });
+  return sched;
+}
+
+function scheduledView(sched: any) {
+  return {
+    jobId: sched.id,
+    status: sched.status,
+    publishAt: new Date(sched.publish_at).toISOString(),
+    type: sched.job.type ?? "video",
+    ...(sched.job.type === "photo" ? { images: sched.job.image_keys } : { key: sched.job.key }),
+    caption: sched.job.caption,
+    mode: sched.job.mode,
+    createdAt: new Date(sched.created_at).toISOString(),
+    updatedAt: new Date(sched.updated_at).toISOString(),
+    ...(sched.result ? { result: sched.result } : {}),
+  };
+}
+
+// GET /scheduled, GET|PATCH|DELETE /scheduled/:jobId — all scoped to the caller's key
+async function scheduledRoutes(req: Request, env: Env, url: URL) {
+  const auth = await authenticate(req, env);
+  if (auth instanceof Response) return auth;
+
+  const jobId = decodeURIComponent(url.pathname.slice("/scheduled".length).replace(/^\/+/, ""));
+
+  if (!jobId) {
+    if (req.method !== "GET") return json({ ok: false, error: "method not allowed" }, 405);
+    const page = await env.TOKENS_KV.list({
+      prefix: `sched:${auth.hash}:`,
+      cursor: url.searchParams.get("cursor") || undefined,
+      limit: 100,
+    });
+    const jobs = [];
+    for (const k of page.keys) {
+      const sched = tryParse((await env.TOKENS_KV.get(k.name)) || "");
+      if (sched) jobs.push(scheduledView(sched));
+    }
+    jobs.sort((a, b) => a.publishAt.localeCompare(b.publishAt));
+    return json({ ok: true, jobs, cursor: page.list_complete ? null : page.cursor });
+  }
+
+  const recKey = `sched:${auth.hash}:${jobId}`;
+  const sched = tryParse((await env.TOKENS_KV.get(recKey)) || "");
+  if (!sched) return json({ ok: false, error: "not_found" }, 404);
+
+  if (req.method === "GET") return json({ ok: true, ...scheduledView(sched) });
+
+  // No marker means the dispatcher has claimed it (or is about to); writing one back would post it twice
+  const markerKey = `schedq:${auth.hash}:${jobId}`;
+  if (sched.status !== "scheduled" || (await env.TOKENS_KV.get(markerKey)) === null) {
+    const status = sched.status === "scheduled" ? "dispatching" : sched.status;
+    return json({ ok: false, error: "not_modifiable", message: `job is ${status}` }, 409);
+  }
+
+  if (req.method === "DELETE") {
+    sched.status = "cancelled";
+    sched.updated_at = Date.now();
+    await env.TOKENS_KV.delete(markerKey);
+    await env.TOKENS_KV.put(recKey, JSON.stringify(sched), { expirationTtl: SCHEDULE_DONE_TTL });
+    return json({ ok: true, ...scheduledView(sched) });
+  }
+
+  if (req.method === "PATCH") {
+    const body: any = await req.json().catch(() => ({}));
+    const at = parsePublishAt(body.publishAt);
+    if (typeof at === "string") return json({ ok: false, error: "invalid_publish_at", message: at }, 400);
+    // Re-check right before writing: the body read above gives a dispatch time to claim the job
+    const current = tryParse((await env.TOKENS_KV.get(recKey)) || "");
+    if (current?.status !== "scheduled" || (await env.TOKENS_KV.get(markerKey)) === null) {
+      return json({ ok: false, error: "not_modifiable", message: "job is being dispatched" }, 409);
+    }
+    current.publish_at = at;
+    current.updated_at = Date.now();
+    await env.TOKENS_KV.put(recKey, JSON.stringify(current));
+    await env.TOKENS_KV.put(markerKey, "", { metadata: { publish_at: at } });
+    return json({ ok: true, ...scheduledView(current) });
+  }
+
+  return json({ ok: false, error: "method not allowed" }, 405);
+}
+
+// Init every job whose publish_at has passed (called from the frequent cron).
+async function dispatchDueJobs(env: Env) {
+  const now = Date.now();
+  let cursor: string | undefined;
+  let dispatched = 0;
+  let failed = 0;
+
+  do {
+    const page = await env.TOKENS_KV.list<{ publish_at: number }>({ prefix: "schedq:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      if ((k.metadata?.publish_at ?? 0) > now) continue;
+      const [, apiHash, jobId] = k.name.split(":");
+      const recKey = `sched:${apiHash}:${jobId}`;
+      const sched = tryParse((await env.TOKENS_KV.get(recKey)) || "");
+      if (!sched || sched.status !== "scheduled") {
+        await env.TOKENS_KV.delete(k.name);
+        continue;
+      }
+      // One job's KV or queue error must not stop the run (or strand the job; see dispatchScheduledJob)
+      try {
+        if (await dispatchScheduledJob(env, k.name, recKey, sched)) dispatched++; else failed++;
+      } catch (e: any) {
+        failed++;
+        console.log(`Schedule dispatch: ${jobId} failed: ${String(e?.message ?? e)}`);
+      }
+    }
+  } while (cursor);
+
+  console.log(`Schedule dispatch done. Dispatched=${dispatched} Failed=${failed}`);
+}
+
+// Claim the job before dropping the marker: PATCH/DELETE refuse anything not "scheduled" or without a
+// marker, and an overlapping cron run skips it. If anything throws before TikTok accepted or rejected
+// the post (or while queueing a retryable failure), the job is put back as "scheduled" with its marker,
+// so the next run retries it. History and callback errors after that leave the settled job alone.
+async function dispatchScheduledJob(env: Env, markerKey: string, recKey: string, sched: any) {
+  sched.status = "dispatching";
+  sched.updated_at = Date.now();
+  await env.TOKENS_KV.put(recKey, JSON.stringify(sched));
+  await env.TOKENS_KV.delete(markerKey);
+
+  let result: any;
+  try {
+    ({ result } = await initPost(env, sched.job));
+    if (result.retryable && env.POST_QUEUE) {
+      // Transient TikTok failure: let the queue retry it with backoff
+      const rec = await enqueueInitJob(env, sched.job, result.retryAfterSec);
+      sched.status = "queued";
+      sched.result = { ok: true, ...initJobView(rec) };
+    } else {
+      sched.status = result.ok ? "dispatched" : "failed";
+      sched.result = result;
+    }
+    sched.updated_at = Date.now();
+    await env.TOKENS_KV.put(recKey, JSON.stringify(sched), { expirationTtl: SCHEDULE_DONE_TTL });
+  } catch (e) {
+    if (!result || result.retryable) {
+      sched.status = "scheduled";
+      sched.updated_at = Date.now();
+      delete sched.result;
+      await env.TOKENS_KV.put(recKey, JSON.stringify(sched));
+      await env.TOKENS_KV.put(markerKey, "", { metadata: { publish_at: sched.publish_at } });
+    }
+    throw e;
+  }
+
+  await recordPostHistory(env, sched.job, sched.status === "queued" ? sched.result : { ...result, jobId: sched.id }, "schedule");
+  if (sched.status === "failed" && sched.job.callback_url) {
+    await enqueueCallback(env, await currentApiHash(env, sched.job.api_hash), sched.job.callback_url, {
+      event: "post.failed",
+      ...scheduledView(sched),
+    });
+  }
+  return !!result.ok;
+}
+
+// ---- Async init queue ----
+// initjob:<job_id>  → init job record; the POST_QUEUE message only carries the id
+// dlq:<job_id>      → dead letter: job + last error once retries are exhausted (kept 30 days)
+const INIT_MAX_ATTEMPTS = 6;             // keep below max_retries on the consumer in wrangler.toml
+const INIT_BASE_DELAY_SEC = 30;          // 30s, 60s, 120s … doubling per failed attempt
+const INIT_MAX_DELAY_SEC = 3600;
+const QUEUE_MAX_DELAY_SEC = 43200;       // Cloudflare Queues limit for delaySeconds
+const INIT_JOB_TTL = 7 * 86400;
+const DEAD_LETTER_TTL = 30 * 86400;
+
+type InitQueueMessage = { job_id: string };
+type RetryHint = { retryable: boolean; retryAfterSec?: number };
+
+// TikTok error codes worth retrying, with the minimum wait before the next attempt. Anything else
+// below HTTP 429/5xx (bad params, unverified domain, privacy mismatch, daily post cap…) is terminal.
+const TIKTOK_RETRYABLE_CODES: Record<string, number> = {
+  rate_limit_exceeded: 60,
+  spam_risk_too_many_pending_share: 600,
+  internal_error: 0,
+};
+
+function classifyTikTokFailure(r: Response, code?: string): RetryHint {
+  const retryAfter = parseRetryAfter(r.headers.get("retry-after"));
+  if (code && code in TIKTOK_RETRYABLE_CODES) {
+    return { retryable: true, retryAfterSec: Math.max(retryAfter ?? 0, TIKTOK_RETRYABLE_CODES[code]) || undefined };
+  }
+  if (r.status === 429 || r.status >= 500) return { retryable: true, retryAfterSec: retryAfter };
+  return { retryable: false };
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(raw: string | null): number | undefined {
+  if (!raw) return undefined;
+  const sec = Number(raw);
+  if (Number.isFinite(sec)) return Math.max(0, Math.ceil(sec));
+  const at = Date.parse(raw);
+  return Number.isNaN(at) ? undefined : Math.max(0, Math.ceil((at - Date.now()) / 1000));
+}
+
+function retryFields(retry: RetryHint) {
+  if (!retry.retryable) return {};
+  return { retryable: true, ...(retry.retryAfterSec ? { retryAfterSec: retry.retryAfterSec } : {}) };
+}
+
+async function enqueueInitJob(env: Env, job: PostJob, delaySec?: number) {
+  if (!env.POST_QUEUE) throw new Error("POST_QUEUE binding is not configured");
+  const now = Date.now();
+  const rec = {
+    id: crypto.randomUUID(),
+    job,
+    status: "queued",
+    attempts: 0,
+    created_at: now,
+    updated_at: now,
+  };
+  await env.TOKENS_KV.put(`initjob:${rec.id}`, JSON.stringify(rec), { expirationTtl: INIT_JOB_TTL });
+  const delaySeconds = delaySec ? Math.min(delaySec, QUEUE_MAX_DELAY_SEC) : undefined;
+  await env.POST_QUEUE.send({ job_id: rec.id }, delaySeconds ? { delaySeconds } : undefined);
+  return rec;
+}
+
+function initJobView(rec: any) {
+  const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+  return {
+    jobId: rec.id,
+    status: rec.status,
+    jobUrl: `/jobs/${encodeURIComponent(rec.id)}`,
+    attempts: rec.attempts,
+    ...(rec.next_attempt_at ? { nextAttemptAt: iso(rec.next_attempt_at) } : {}),
+    ...(rec.last_error ? { lastError: rec.last_error } : {}),
+    createdAt: iso(rec.created_at),
+    updatedAt: iso(rec.updated_at),
+    ...(rec.result ? { result: rec.result } : {}),
+  };
+}
+
+const INIT_JOB_TERMINAL = ["accepted", "draft_accepted", "failed", "dead_lettered"];
+
+// One delivery from POST_QUEUE. The job record decides what happens; the message is acked unless
+// we want the queue to bring it back after a backoff delay.
+async function processInitMessage(env: Env, msg: Message<InitQueueMessage>) {
+  const recKey = `initjob:${msg.body.job_id}`;
+  const rec = tryParse((await env.TOKENS_KV.get(recKey)) || "");
+  // Redelivered after we already finished (e.g. the ack was lost): never init twice
+  if (!rec || INIT_JOB_TERMINAL.includes(rec.status)) return msg.ack();
+
+  let result: any;
+  try {
+    result = (await initPost(env, rec.job)).result;
+  } catch (e: any) {
+    result = { ok: false, error: String(e?.message ?? e), retryable: true };
+  }
+
+  const now = Date.now();
+  rec.attempts = msg.attempts;
+  rec.updated_at = now;
+
+  if (result.ok) {
+    rec.status = result.status;
+    rec.result = result;
+    delete rec.next_attempt_at;
+    await env.TOKENS_KV.put(recKey, JSON.stringify(rec), { expirationTtl: INIT_JOB_TTL });
+    await recordPostHistory(env, rec.job, result, "queue");
+    return msg.ack();
+  }
+
+  if (result.retryable && msg.attempts < INIT_MAX_ATTEMPTS) {
+    const backoff = Math.min(INIT_MAX_DELAY_SEC, INIT_BASE_DELAY_SEC * 2 ** (msg.attempts - 1));
+    const delaySeconds = Math.min(QUEUE_MAX_DELAY_SEC, Math.max(backoff, result.retryAfterSec ?? 0));
+    rec.status = "retrying";
+    rec.last_error = result.error;
+    rec.next_attempt_at = now + delaySeconds * 1000;
+    await env.TOKENS_KV.put(recKey, JSON.stringify(rec), { expirationTtl: INIT_JOB_TTL });
+    return msg.retry({ delaySeconds });
+  }
+
+  rec.status = result.retryable ? "dead_lettered" : "failed";
+  rec.result = result;
+  delete rec.next_attempt_at;
+  await env.TOKENS_KV.put(recKey, JSON.stringify(rec), { expirationTtl: INIT_JOB_TTL });
+  await recordPostHistory(env, rec.job, { ...result, status: rec.status }, "queue");
+  if (rec.status === "dead_lettered") {
+    // initPost leaves retryable failures unstored, so the key would otherwise keep replaying "queued"
+    await storeIdempotentResult(env, rec.job, { ...result, status: rec.status });
+    await env.TOKENS_KV.put(`dlq:${rec.id}`, JSON.stringify({
+      id: rec.id,
+      job: rec.job,
+      attempts: rec.attempts,
+      error: result.error,
+      dead_at: now,
+    }), { expirationTtl: DEAD_LETTER_TTL });
+    console.log(`Init job ${rec.id} dead-lettered after ${rec.attempts} attempts`);
+  }
+  if (rec.job.callback_url) {
+    await enqueueCallback(env, await currentApiHash(env, rec.job.api_hash), rec.job.callback_url, {
+      event: "post.failed",
+      ...initJobView(rec),
+    });
+  }
+  msg.ack();
+}
+
+async function initJobStatus(req: Request, env: Env, jobId: string) {
+  const auth = await authenticate(req, env, { prefix: "rk:status", ...routeRateLimit(env, "STATUS", { limit: 120, windowSec: 60 }) });
+  if (auth instanceof Response) return auth;
+
+  const rec = tryParse((await env.TOKENS_KV.get(`initjob:${jobId}`)) || "");
+  // Jobs remember the key that created them; a rotated key's successor can see them too
+  if (!rec || (rec.job.api_hash !== auth.hash && (await currentApiHash(env, rec.job.api_hash)) !== auth.hash)) {
+    return json({ ok: false, error: "not_found" }, 404);
+  }
+  return json({ ok: true, ...initJobView(rec) });
+}
+
+// ---- API key management ----
+// A rotated key keeps working until grace_until; rotated:<old_hash> → <new_hash> lets records that
+// still carry the old hash (publish records, queued callbacks) find the key's current settings.
+const KEY_LABEL_MAX = 60;
+const KEY_ROTATION_GRACE_HOURS = 24;
+const KEY_ROTATION_POINTER_TTL = 30 * 86400;
+const KEY_REVOKED_TTL = 30 * 86400;
+
+function cleanKeyLabel(raw: unknown): string | undefined {
+  if (typeof raw !== "string") return undefined;
+  const label = raw.replace(/[\u0000-\u001f]/g, "").trim().slice(0, KEY_LABEL_MAX);
+  return label || undefined;
+}
+
+// Usage lives in used:<hash>, never in api:<hash>: rewriting the auth record from the copy read at
+// authentication could undo a concurrent revoke or rotation, and KV allows ~1 write/s per key.
+// Uses are buffered per isolate and flushed at most once a minute, so use_count is approximate.
+type KeyUsage = { last_used_at?: number; use_count?: number };
+const KEY_USAGE_FLUSH_MS = 60_000;
+const KEY_USAGE_TTL = 365 * 86400;
+const KEY_USAGE_PENDING = new Map<string, { count: number; last_used_at: number; flushed_at: number }>();
+
+function touchApiKey(env: Env, ctx: ExecutionContext, hash: string, apiMeta: any) {
+  const now = Date.now();
+  const u = KEY_USAGE_PENDING.get(hash) ?? { count: 0, last_used_at: now, flushed_at: 0 };
+  u.count++;
+  u.last_used_at = now;
+  KEY_USAGE_PENDING.set(hash, u);
+  if (now - u.flushed_at < KEY_USAGE_FLUSH_MS) return;
+
+  const count = u.count;
+  u.count = 0;
+  u.flushed_at = now;
+  ctx.waitUntil(flushKeyUsage(env, hash, count, now, apiMeta).catch((e) => {
+    u.count += count;
+    console.log(`Key usage flush failed for ${hash.slice(0, 8)}: ${String(e?.message ?? e)}`);
+  }));
+}
+
+// Keys from before used:<hash> existed carry their counters on the api record; those seed the new one
+async function flushKeyUsage(env: Env, hash: string, count: number, at: number, apiMeta: any) {
+  const cur: KeyUsage = tryParse((await env.TOKENS_KV.get(`used:${hash}`)) || "")
+    ?? { last_used_at: apiMeta.last_used_at, use_count: apiMeta.use_count };
+  const next: KeyUsage = {
+    last_used_at: Math.max(at, cur.last_used_at ?? 0),
+    use_count: (cur.use_count ?? 0) + count,
+  };
+  await env.TOKENS_KV.put(`used:${hash}`, JSON.stringify(next), { expirationTtl: KEY_USAGE_TTL });
+}
+
+async function keyUsage(env: Env, hash: string, apiMeta: any): Promise<KeyUsage> {
+  return tryParse((await env.TOKENS_KV.get(`used:${hash}`)) || "")
+    ?? { last_used_at: apiMeta.last_used_at, use_count: apiMeta.use_count };
+}
+
+// Settings changes re-read api:<hash> right before writing: the copy from authenticate() may predate a
+// concurrent revoke or rotation, and writing it back would undo that. Revoked and rotated-out keys
+// take no changes (the new key carries its own settings). Returns the written record or an error response.
+async function updateApiKeySettings(env: Env, hash: string, change: (meta: any) => void | Promise<void>) {
+  const meta = tryParse((await env.TOKENS_KV.get(`api:${hash}`)) || "");
+  if (!meta || meta.status !== "active" || meta.grace_until) {
+    return json({ ok: false, error: "key_not_modifiable", message: "This key was revoked or rotated; change settings on the current key" }, 409);
+  }
+  await change(meta);
+  await env.TOKENS_KV.put(`api:${hash}`, JSON.stringify(meta), apiKeyPutOptions(meta));
+  return meta;
+}
+
+// Rotated keys must keep their grace-period expiry on every rewrite
+function apiKeyPutOptions(apiMeta: any): KVNamespacePutOptions {
+  if (apiMeta.grace_until) return { expiration: Math.ceil(apiMeta.grace_until / 1000) + 60 };
+  if (apiMeta.status === "revoked") return { expirationTtl: KEY_REVOKED_TTL };
+  return {};
+}
+
+async function currentApiHash(env: Env, hash: string) {
+  for (let i = 0; i < 5; i++) {
+    const next = await env.TOKENS_KV.get(`rotated:${hash}`);
+    if (!next) break;
+    hash = next;
+  }
+  return hash;
+}
+
+function keyView(hash: string, meta: any, usage: KeyUsage = meta) {
+  const iso = (ms?: number) => (ms ? new Date(ms).toISOString() : null);
+  return {
+    hashPrefix: hash.slice(0, 8),
+    label: meta.label ?? null,
+    status: meta.status,
+    createdAt: iso(meta.created_at),
+    lastUsedAt: iso(usage.last_used_at),
+    useCount: usage.use_count ?? 0,
+    defaultAccount: meta.open_id ?? null,
+    accounts: linkedAccounts(meta).map((a) => ({ openId: a.open_id, label: a.label ?? null })),
+    scopes: meta.scopes ?? null,
+    caption: meta.caption ?? null,
+    ...(meta.rotated_from ? { rotatedFrom: meta.rotated_from } : {}),
+    ...(meta.grace_until ? { graceUntil: iso(meta.grace_until) } : {}),
+  };
+}
+
+// GET /keys, POST /keys/label, POST /keys/caption, POST /keys/rotate, POST /keys/revoke — all authenticated by the key itself
+async function keysRoutes(req: Request, env: Env, url: URL) {
+  const auth = await authenticate(req, env, { prefix: "rk:keys", ...routeRateLimit(env, "KEYS", { limit: 30, windowSec: 60 }) });
+  if (auth instanceof Response) return auth;
+  const meta = auth.apiMeta;
+
+  if (url.pathname === "/keys" && req.method === "GET") {
+    return json({ ok: true, key: keyView(auth.hash, meta, await keyUsage(env, auth.hash, meta)) });
+  }
+
+  if (url.pathname === "/keys/label" && req.method === "POST") {
+    const body: any = await req.json().catch(() => ({}));
+    const label = cleanKeyLabel(body.label);
+    if (body.label !== null && !label) return json({ ok: false, error: "label must be a non-empty string (or null to clear)" }, 400);
+    const updated = await updateApiKeySettings(env, auth.hash, (m) => {
+      if (label) m.label = label; else delete m.label;
+    });
+    if (updated instanceof Response) return updated;
+    return json({ ok: true, key: keyView(auth.hash, updated, await keyUsage(env, auth.hash, updated)) });
+  }
+
+  if (url.pathname === "/keys/caption" && req.method === "POST") {
+    const body: any = await req.json().catch(() => ({}));
+    const settings = parseCaptionSettings(body);
+    if (typeof settings === "string") return json({ ok: false, error: "invalid_caption_settings", message: settings }, 400);
+    const updated = await updateApiKeySettings(env, auth.hash, (m) => {
+      if (settings) m.caption = settings; else delete m.caption;
+    });
+    if (updated instanceof Response) return updated;
+    return json({ ok: true, key: keyView(auth.hash, updated, await keyUsage(env, auth.hash, updated)) });
+  }
+
+  if (url.pathname === "/keys/rotate" && req.method === "POST") {
+    if (meta.grace_until) return json({ ok: false, error: "already_rotated", message: "Rotate the new key instead" }, 409);
+    const now = Date.now();
+    const raw = await mintApiToken();
+    const newHash = await sha256Base64Url(raw);
+    const graceUntil = now + KEY_ROTATION_GRACE_HOURS * 3600 * 1000;
+
+    const { grace_until, rotated_to, last_used_at, use_count, ...carried } = meta;
+    await env.TOKENS_KV.put(`api:${newHash}`, JSON.stringify({
+      ...carried,
+      created_at: now,
+      rotated_from: auth.hash.slice(0, 8),
+    }));
+    meta.grace_until = graceUntil;
+    meta.rotated_to = newHash.slice(0, 8);
+    await env.TOKENS_KV.put(`api:${auth.hash}`, JSON.stringify(meta), apiKeyPutOptions(meta));
+    await env.TOKENS_KV.put(`rotated:${auth.hash}`, newHash, { expirationTtl: KEY_ROTATION_POINTER_TTL });
+    const moved = await moveScheduledJobs(env, auth.hash, newHash);
+
+    return json({
+      ok: true,
+      apiKey: raw, // shown once, we only store a hash
+      graceUntil: new Date(graceUntil).toISOString(),
+      scheduledJobsMoved: moved,
+    });
+  }
+
+  if (url.pathname === "/keys/revoke" && req.method === "POST") {
+    meta.status = "revoked";
+    meta.revoked_at = Date.now();
+    delete meta.grace_until;
+    await env.TOKENS_KV.put(`api:${auth.hash}`, JSON.stringify(meta), apiKeyPutOptions(meta));
+    return json({ ok: true, key: keyView(auth.hash, meta) });
+  }
+
+  return json({ ok: false, error: "not_found" }, 404);
+}
+
+// Scheduled jobs are keyed by api hash, so they follow the key on rotation
+async function moveScheduledJobs(env: Env, fromHash: string, toHash: string) {
+  let cursor: string | undefined;
+  let moved = 0;
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: `sched:${fromHash}:`, cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+    for (const k of page.keys) {
+      const sched = tryParse((await env.TOKENS_KV.get(k.name)) || "");
+      if (!sched) continue;
+      sched.job.api_hash = toHash;
+      if (sched.status === "scheduled") {
+        await env.TOKENS_KV.put(`sched:${toHash}:${sched.id}`, JSON.stringify(sched));
+        await env.TOKENS_KV.put(`schedq:${toHash}:${sched.id}`, "", { metadata: { publish_at: sched.publish_at } });
+        await env.TOKENS_KV.delete(`schedq:${fromHash}:${sched.id}`);
+      } else {
+        await env.TOKENS_KV.put(`sched:${toHash}:${sched.id}`, JSON.stringify(sched), { expirationTtl: SCHEDULE_DONE_TTL });
+      }
+      await env.TOKENS_KV.delete(k.name);
+      moved++;
+    }
+  } while (cursor);
+  return moved;
+}
+
+// ---- Key scopes ----
+// Optional restrictions chosen on /keys/new and stored as api:<hash>.scopes. They travel with the key
+// on rotation and can't be changed through the API, so a restricted key can't widen itself.
+type KeyScopes = {
+  draftOnly?: boolean;
+  dryRunOnly?: boolean;
+  allowedPrefixes?: string[];   // R2 key prefixes media must live under
+  idPrefix?: string;            // fills {prefix} in KEY_TEMPLATE when posting by id
+  allowedPrivacy?: string[];
+  rateLimitPerMin?: number;     // can only lower RATE_LIMIT_WEBHOOK, never raise it
+};
+
+// RATE_LIMIT_WEBHOOK as whole requests per minute: the ceiling for a key's own rate limit
+function webhookRatePerMin(env: Env) {
+  const cfg = routeRateLimit(env, "WEBHOOK", { limit: 60, windowSec: 60 });
+  return Math.max(1, Math.floor((cfg.limit * 60) / cfg.windowSec));
+}
+
+// The key's limit applies only when it is stricter than the configured one (which may have been
+// lowered since the key was created)
+function webhookRateLimit(env: Env, scopes: KeyScopes) {
+  const cfg = routeRateLimit(env, "WEBHOOK", { limit: 60, windowSec: 60 });
+  if (!scopes.rateLimitPerMin || scopes.rateLimitPerMin / 60 >= cfg.limit / cfg.windowSec) return cfg;
+  return { limit: scopes.rateLimitPerMin, windowSec: 60 };
+}
+
+// Returns scopes (undefined when unrestricted), or an error message
+function parseKeyScopes(form: FormData | null, maxRatePerMin: number): KeyScopes | undefined | string {
+  if (!form) return undefined;
+  const scopes: KeyScopes = {};
+  if (form.get("scope_draft_only")) scopes.draftOnly = true;
+  if (form.get("scope_dry_run_only")) scopes.dryRunOnly = true;
+
+  const prefixes = String(form.get("scope_prefixes") ?? "")
+    .split(/[\s,]+/)
+    .map((p) => p.replace(/^\/+/, ""))
+    .filter(Boolean);
+  if (prefixes.some((p) => p.split("/").includes(".."))) return "prefixes must not contain '..'";
+  if (prefixes.length) scopes.allowedPrefixes = [...new Set(prefixes)];
+
+  const idPrefix = String(form.get("scope_id_prefix") ?? "").trim().replace(/^\/+/, "");
+  if (idPrefix.split("/").includes("..")) return "id prefix must not contain '..'";
+  if (idPrefix && scopes.allowedPrefixes && !scopes.allowedPrefixes.some((p) => idPrefix.startsWith(p))) {
+    return "id prefix must be inside one of the allowed prefixes";
+  }
+  if (idPrefix) scopes.idPrefix = idPrefix;
+
+  const privacy = form.getAll("scope_privacy").map((p) => String(p).toUpperCase());
+  if (privacy.some((p) => !PRIVACY_LEVELS.includes(p))) return `privacy must be one of ${PRIVACY_LEVELS.join(", ")}`;
+  if (privacy.length) scopes.allowedPrivacy = [...new Set(privacy)];
+
+  const rate = String(form.get("scope_rate_limit") ?? "").trim();
+  if (rate) {
+    const n = Number(rate);
+    if (!Number.isInteger(n) || n < 1 || n > maxRatePerMin) return `rate limit must be 1–${maxRatePerMin} per minute`;
+    scopes.rateLimitPerMin = n;
+  }
+  return Object.keys(scopes).length ? scopes : undefined;
+}
+
+function checkKeyScopes(
+  scopes: KeyScopes,
+  req: { dry: boolean; mode: string; keys: string[]; privacy: string }
+): { code: string; message: string } | undefined {
+  if (scopes.dryRunOnly && !req.dry) {
+    return { code: "scope_dry_run_only", message: "This key may only make dry-run requests" };
+  }
+  if (scopes.draftOnly && req.mode !== "draft") {
+    return { code: "scope_draft_only", message: "This key may only create drafts (mode: \"draft\")" };
+  }
+  if (scopes.allowedPrefixes?.length) {
+    const outside = req.keys.find((k) => !scopes.allowedPrefixes.some((p) => k.startsWith(p)));
+    if (outside !== undefined) {
+      return { code: "scope_prefix_denied", message: `${outside} is outside this key's allowed prefixes (${scopes.allowedPrefixes.join(", ")})` };
+    }
+  }
+  if (scopes.allowedPrivacy?.length && !scopes.allowedPrivacy.includes(req.privacy)) {
+    return { code: "scope_privacy_denied", message: `privacy ${req.privacy} is not allowed for this key (${scopes.allowedPrivacy.join(", ")})` };
+  }
+  return undefined;
+}
+
+// ---- Linked TikTok accounts ----
+// api:<hash>.accounts lists every account linked to a key; api:<hash>.open_id stays the default target.
+// Keys created before multi-account support only have open_id.
+type LinkedAccount = {
+  open_id: string;
+  label?: string;           // TikTok display name at link time
+  avatar_url?: string;
+  linked_at?: number;
+};
+
+const LINK_TOKEN_TTL = 600;
+
+function linkedAccounts(apiMeta: any): LinkedAccount[] {
+  if (Array.isArray(apiMeta.accounts) && apiMeta.accounts.length) return apiMeta.accounts;
+  return apiMeta.open_id ? [{ open_id: apiMeta.open_id }] : [];
+}
+
+// Match on open_id or (case-insensitively) on the label
+function findAccount(apiMeta: any, selector: string): LinkedAccount | undefined {
+  const wanted = selector.replace(/^@/, "").toLowerCase();
+  return linkedAccounts(apiMeta).find((a) => a.open_id === selector || a.label?.toLowerCase() === wanted);
+}
+
+function resolveTargetAccounts(apiMeta: any, body: any): LinkedAccount[] | string {
+  if (body.accounts !== undefined) {
+    if (body.accounts === "all") return linkedAccounts(apiMeta);
+    if (!Array.isArray(body.accounts) || !body.accounts.length) return 'accounts must be a non-empty array or "all"';
+    const out: LinkedAccount[] = [];
+    for (const sel of body.accounts) {
+      const acct = typeof sel === "string" ? findAccount(apiMeta, sel) : undefined;
+      if (!acct) return `account ${JSON.stringify(sel)} is not linked to this key`;
+      if (!out.includes(acct)) out.push(acct);
+    }
+    return out;
+  }
+  if (body.account !== undefined) {
+    const acct = typeof body.account === "string" ? findAccount(apiMeta, body.account) : undefined;
+    if (!acct) return `account ${JSON.stringify(body.account)} is not linked to this key`;
+    return [acct];
+  }
+  return [findAccount(apiMeta, apiMeta.open_id) ?? { open_id: apiMeta.open_id }];
+}
+
+function upsertAccount(apiMeta: any, acct: LinkedAccount) {
+  const accounts = linkedAccounts(apiMeta).filter((a) => a.open_id !== acct.open_id);
+  accounts.push(acct);
+  apiMeta.accounts = accounts;
+  if (!apiMeta.open_id) apiMeta.open_id = acct.open_id;
+  return apiMeta;
+}
+
+async function fetchUserInfo(env: Env, access: string): Promise<{ display_name?: string; avatar_url?: string } | null> {
+  try {
+    const r = await fetch(env.USER_INFO_URL, { headers: { authorization: `Bearer ${access}` } });
+    const payload = tryParse(await safeText(r));
+    if (!r.ok || (payload?.error?.code && payload.error.code !== "ok")) return null;
+    return payload?.data?.user ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// GET /accounts → linked accounts; POST /accounts/link → one-time /login?link= URL for adding another
+async function accountsRoutes(req: Request, env: Env, url: URL) {
+  const auth = await authenticate(req, env);
+  if (auth instanceof Response) return auth;
+
+  if (url.pathname === "/accounts/link" && req.method === "POST") {
+    const token = crypto.randomUUID();
+    await env.TOKENS_KV.put(`link:${token}`, JSON.stringify({ api_hash: auth.hash }), { expirationTtl: LINK_TOKEN_TTL });
+    return json({
+      ok: true,
+      linkUrl: `${url.origin}/login?link=${encodeURIComponent(token)}`,
+      expiresIn: LINK_TOKEN_TTL,
+    });
+  }
+
+  if (url.pathname === "/accounts" && req.method === "GET") {
+    return json({ ok: true, accounts: await accountsView(env, auth.apiMeta) });
+  }
+
+  return json({ ok: false, error: "not_found" }, 404);
+}
+
+// Linked accounts with token health (GET /accounts and the dashboard)
+async function accountsView(env: Env, apiMeta: any) {
+  const accounts = [];
+  for (const a of linkedAccounts(apiMeta)) {
+    // A record sealed under a master key that was since removed can't be read; report it, don't fail the list
+    const tok = await readTokenRecord(env, `tok:open:${a.open_id}`).catch(() => "unreadable" as const);
+    const unreadable = tok === "unreadable";
+    accounts.push({
+      openId: a.open_id,
+      label: a.label ?? null,
+      avatarUrl: a.avatar_url ?? null,
+      linkedAt: a.linked_at ? new Date(a.linked_at).toISOString() : null,
+      default: a.open_id === apiMeta.open_id,
+      needsReauth: !unreadable && !!tok?.needs_reauth,
+      tokenUnreadable: unreadable,
+      refreshExpiresAt: !unreadable && tok?.refresh_expires_at ? new Date(tok.refresh_expires_at).toISOString() : null,
+    });
+  }
+  return accounts;
+}
+
+// ---- Disconnect / deauthorization ----
+// disc:open:<open_id> marks an account as disconnected (by us or from inside the TikTok app) so
+// requests targeting it fail with account_disconnected instead of a generic token error.
+const DISCONNECT_MARKER_TTL = 90 * 86400;
+const TIKTOK_EVENT_TOLERANCE_SEC = 300;
+
+function disconnectedMessage(acct: LinkedAccount, marker: any) {
+  const who = acct.label ?? acct.open_id;
+  const how = marker?.source === "tiktok_deauth" ? "access was removed in the TikTok app" : "it was disconnected";
+  return `${who} is no longer connected (${how}). Link it again with POST /accounts/link.`;
+}
+
+// Drop the tokens, mark the account, and detach it from every api: record.
+// Keys left without any account are revoked; multi-account keys just lose this one.
+async function disconnectAccount(env: Env, openId: string, source: "api" | "tiktok_deauth") {
+  await env.TOKENS_KV.delete(`tok:open:${openId}`);
+  await env.TOKENS_KV.put(`disc:open:${openId}`, JSON.stringify({ at: Date.now(), source }), {
+    expirationTtl: DISCONNECT_MARKER_TTL,
+  });
+
+  let cursor: string | undefined;
+  let keysRevoked = 0;
+  let keysUpdated = 0;
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: "api:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      const meta = tryParse((await env.TOKENS_KV.get(k.name)) || "");
+      if (!meta || meta.status === "revoked") continue;
+      const accounts = linkedAccounts(meta);
+      if (!accounts.some((a) => a.open_id === openId)) continue;
+
+      const remaining = accounts.filter((a) => a.open_id !== openId);
+      if (remaining.length) {
+        meta.accounts = remaining;
+        if (meta.open_id === openId) meta.open_id = remaining[0].open_id;
+        keysUpdated++;
+      } else {
+        meta.status = "revoked";
+        meta.revoked_reason = "account_disconnected";
+        meta.revoked_at = Date.now();
+        keysRevoked++;
+      }
+      await env.TOKENS_KV.put(k.name, JSON.stringify(meta), apiKeyPutOptions(meta));
+    }
+  } while (cursor);
+
+  console.log(`Disconnected ${openId} (${source}). KeysRevoked=${keysRevoked} KeysUpdated=${keysUpdated}`);
+  return { keysRevoked, keysUpdated };
+}
+
+// POST /disconnect { account? } — revoke our TikTok access for one linked account
+async function disconnect(req: Request, env: Env) {
+  const auth = await authenticate(req, env, { prefix: "rk:disconnect", ...routeRateLimit(env, "DISCONNECT", { limit: 10, windowSec: 3600 }) });
+  if (auth instanceof Response) return auth;
+
+  const body: any = await req.json().catch(() => ({}));
+  const acct = body.account !== undefined
+    ? (typeof body.account === "string" ? findAccount(auth.apiMeta, body.account) : undefined)
+    : findAccount(auth.apiMeta, auth.openId) ?? { open_id: auth.openId };
+  if (!acct) return json({ ok: false, error: "account_not_linked", message: `account ${JSON.stringify(body.account)} is not linked to this key` }, 400);
+
+  // Best effort: tell TikTok first; local cleanup happens regardless
+  let tiktokRevoked = false;
+  let revokeError: string | undefined;
+  try {
+    const access = await getAccessTokenFor(env, `tok:open:${acct.open_id}`);
+    const r = await fetch(env.REVOKE_URL, {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_key: env.TIKTOK_CLIENT_KEY,
+        client_secret: env.TIKTOK_CLIENT_SECRET,
+        token: access,
+      }),
+    });
+    tiktokRevoked = r.ok;
+    if (!r.ok) revokeError = await safeText(r);
+  } catch (e: any) {
+    revokeError = String(e?.message ?? e);
+  }
+
+  const summary = await disconnectAccount(env, acct.open_id, "api");
+  return json({
+    ok: true,
+    openId: acct.open_id,
+    tiktokRevoked,
+    ...(revokeError ? { revokeError } : {}),
+    ...summary,
+  });
+}
+
+// POST /tiktok/events — TikTok webhook. Verifies TikTok-Signature (t=<unix>,s=<hex HMAC of "<t>.<body>">
+// keyed with the client secret) and handles authorization.removed; other events are acknowledged.
+async function tiktokEvents(req: Request, env: Env) {
+  const raw = await req.text();
+  const sigHeader = req.headers.get("TikTok-Signature") || "";
+  const parts = Object.fromEntries(sigHeader.split(",").map((p) => p.trim().split("=", 2) as [string, string]));
+  const ts = parseInt(parts.t || "", 10);
+  if (!ts || !parts.s) return json({ ok: false, error: "missing signature" }, 401);
+  if (Math.abs(Date.now() / 1000 - ts) > TIKTOK_EVENT_TOLERANCE_SEC) return json({ ok: false, error: "stale signature" }, 401);
+  const expected = await hmacSha256Hex(env.TIKTOK_CLIENT_SECRET, `${ts}.${raw}`);
+  if (!timingSafeEqual(expected, parts.s)) return json({ ok: false, error: "bad signature" }, 401);
+
+  const event = tryParse(raw) || {};
+  if (event.client_key && event.client_key !== env.TIKTOK_CLIENT_KEY) return json({ ok: false, error: "wrong client" }, 400);
+
+  if (event.event === "authorization.removed" && event.user_openid) {
+    await disconnectAccount(env, event.user_openid, "tiktok_deauth");
+  } else {
+    console.log(`TikTok event ignored: ${event.event}`);
+  }
+  return json({ ok: true });
+}
+
+// ---- Publish status tracking ----
+// pub:<open_id>:<publish_id>   → normalised status record (kept after completion)
+// pubq:<open_id>:<publish_id>  → marker for records still awaiting a terminal state
+type PublishState = "accepted" | "downloading" | "processing" | "published" | "failed";
+
+const PUBLISH_TERMINAL: PublishState[] = ["published", "failed"];
+const PUBLISH_RECORD_TTL = 30 * 86400;   // keep status records for 30 days
+const PUBLISH_POLL_MAX_HOURS = 48;       // stop polling anything older than this
+
+async function recordPublish(env: Env, openId: string, publishId: string, extra: Record<string, any> = {}) {
+  const now = Date.now();
+  const rec = {
+    publish_id: publishId,
+    open_id: openId,
+    state: "accepted" as PublishState,
+    tiktok_status: null,
+    fail_reason: null,
+    post_ids: [],
+    created_at: now,
+    updated_at: now,
+    polled_at: 0,
+    ...extra,
+  };
+  await env.TOKENS_KV.put(`pub:${openId}:${publishId}`, JSON.stringify(rec), { expirationTtl: PUBLISH_RECORD_TTL });
+  await env.TOKENS_KV.put(`pubq:${openId}:${publishId}`, String(now), { expirationTtl: PUBLISH_POLL_MAX_HOURS * 3600 });
+  return rec;
+}
+
+// TikTok statuses → our lifecycle. SEND_TO_USER_INBOX is the terminal state for drafts.
+function normalisePublishStatus(tiktokStatus: string | undefined): PublishState | undefined {
+  switch (tiktokStatus) {
+    case "PROCESSING_DOWNLOAD": return "downloading";
+    case "PROCESSING_UPLOAD": return "processing";
+    case "SEND_TO_USER_INBOX":
+    case "PUBLISH_COMPLETE": return "published";
+    case "FAILED": return "failed";
+    default: return undefined;
+  }
+}
+
+async function fetchPublishStatus(env: Env, openId: string, publishId: string) {
+  const access = await getAccessTokenFor(env, `tok:open:${openId}`);
+  const r = await fetch(env.POST_STATUS_URL, {
+    method: "POST",
+    headers: {
+      authorization: `Bearer ${access}`,
+      "content-type": "application/json; charset=UTF-8",
+    },
+    body: JSON.stringify({ publish_id: publishId }),
+  });
+  const text = await safeText(r);
+  const payload = tryParse(text);
+  if (!r.ok || (payload?.error?.code && payload.error.code !== "ok")) {
+    throw new Error(`Status fetch failed (${r.status}): ${payload?.error?.message ?? text}`);
+  }
+  return payload?.data ?? {};
+}
+
+// Poll TikTok once for a record and persist the result. Returns the (possibly unchanged) record.
+async function refreshPublishRecord(env: Env, rec: any) {
+  const key = `pub:${rec.open_id}:${rec.publish_id}`;
+  const now = Date.now();
+  const wasTerminal = PUBLISH_TERMINAL.includes(rec.state);
+  try {
+    const data = await fetchPublishStatus(env, rec.open_id, rec.publish_id);
+    const state = normalisePublishStatus(data.status);
+    rec = {
+      ...rec,
+      state: state ?? rec.state,
+      tiktok_status: data.status ?? rec.tiktok_status,
+      fail_reason: data.fail_reason ?? rec.fail_reason ?? null,
+      post_ids: data.publicaly_available_post_id ?? rec.post_ids ?? [],
+      updated_at: state && state !== rec.state ? now : rec.updated_at,
+      polled_at: now,
+      poll_error: undefined,
+    };
+  } catch (e: any) {
+    rec = { ...rec, polled_at: now, poll_error: String(e?.message ?? e) };
+  }
+
+  const becameTerminal = PUBLISH_TERMINAL.includes(rec.state) && !rec.callback_queued;
+  if (becameTerminal && rec.callback_url) rec.callback_queued = true;
+
+  await env.TOKENS_KV.put(key, JSON.stringify(rec), { expirationTtl: PUBLISH_RECORD_TTL });
+  if (PUBLISH_TERMINAL.includes(rec.state)) {
+    await env.TOKENS_KV.delete(`pubq:${rec.open_id}:${rec.publish_id}`);
+  }
+  if (!wasTerminal && PUBLISH_TERMINAL.includes(rec.state) && rec.job) {
+    await recordPostHistory(env, { ...rec.job, open_id: rec.open_id }, {
+      ok: rec.state === "published",
+      status: rec.state,
+      publishId: rec.publish_id,
+      ...(rec.fail_reason ? { error: { code: rec.fail_reason } } : {}),
+      postIds: rec.post_ids ?? [],
+    }, "poll");
+  }
+  if (becameTerminal && rec.callback_url) {
+    await enqueueCallback(env, await currentApiHash(env, rec.api_hash), rec.callback_url, {
+      event: rec.state === "published" ? "post.published" : "post.failed",
+      ...publishStatusView(rec),
+    });
+  }
+  return rec;
+}
+
+async function publishStatus(req: Request, env: Env, publishId: string) {
+  const auth = await authenticate(req, env, { prefix: "rk:status", ...routeRateLimit(env, "STATUS", { limit: 120, windowSec: 60 }) });
+  if (auth instanceof Response) return auth;
+  if (!publishId) return json({ ok:false, error:"missing publish id" }, 400);
+
+  let raw: string | null = null;
+  for (const acct of linkedAccounts(auth.apiMeta)) {
+    raw = await env.TOKENS_KV.get(`pub:${acct.open_id}:${publishId}`);
+    if (raw) break;
+  }
+  if (!raw) return json({ ok:false, error:"not_found" }, 404);
+  let rec = tryParse(raw);
+  if (!rec) return json({ ok:false, error:"corrupt status record" }, 500);
+
+  // Not finished yet → ask TikTok now rather than waiting for the next cron tick
+  if (!PUBLISH_TERMINAL.includes(rec.state) && Date.now() - (rec.polled_at || 0) > 15_000) {
+    rec = await refreshPublishRecord(env, rec);
+  }
+  return json({ ok: true, ...publishStatusView(rec) });
+}
+
+function publishStatusView(rec: any) {
+  return {
+    publishId: rec.publish_id,
+    state: rec.state,
+    terminal: PUBLISH_TERMINAL.includes(rec.state),
+    tiktokStatus: rec.tiktok_status,
+    failReason: rec.fail_reason,
+    postIds: rec.post_ids ?? [],
+    type: rec.type ?? "video",
+    mode: rec.mode,
+    createdAt: new Date(rec.created_at).toISOString(),
+    updatedAt: new Date(rec.updated_at).toISOString(),
+    ...(rec.poll_error ? { pollError: rec.poll_error } : {}),
+  };
+}
+
+// Walk every pubq: marker and poll TikTok for it (called from scheduled()).
+async function pollPublishStatuses(env: Env) {
+  const now = Date.now();
+  let cursor: string | undefined;
+  let polled = 0;
+  let finished = 0;
+
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: "pubq:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      const [, openId, ...rest] = k.name.split(":");
+      const publishId = rest.join(":");
+      const raw = await env.TOKENS_KV.get(`pub:${openId}:${publishId}`);
+      const rec = raw ? tryParse(raw) : null;
+      if (!rec || now - rec.created_at > PUBLISH_POLL_MAX_HOURS * 3600 * 1000) {
+        await env.TOKENS_KV.delete(k.name);
+        continue;
+      }
+
+      polled++;
+      const next = await refreshPublishRecord(env, rec);
+      if (PUBLISH_TERMINAL.includes(next.state)) finished++;
+    }
+  } while (cursor);
+
+  console.log(`Status poll done. Polled=${polled} Finished=${finished}`);
+}
+
+// ---- Post history ----
+// Append-only: one row per outcome (init result, scheduled, queued, then published/failed from polling),
+// so a post's whole life can be read back by R2 key or date. D1 when POST_HISTORY_DB is bound:
+//   post_history(id, open_id, created_at, status, r2_key, …) — created on first use
+// otherwise KV:
+//   hist:<open_id>:<13-digit inverted ms>:<id> → row (newest first in list order, kept HISTORY_KV_TTL)
+const HISTORY_KV_TTL = 365 * 86400;
+const HISTORY_PAGE_DEFAULT = 50;
+const HISTORY_PAGE_MAX = 200;
+const HISTORY_KEY_PREFIX_LEN = 12;     // API key hashes are stored truncated
+const HISTORY_MAX_TS = 9_999_999_999_999;
+
+type PostHistoryRow = {
+  id: string;
+  open_id: string;
+  created_at: number;
+  submitted_at: number | null;
+  duration_ms: number | null;     // request received → this outcome
+  source: "api" | "schedule" | "queue" | "poll";
+  status: string;
+  ok: boolean;
+  type: string;
+  r2_key: string | null;          // video key, or the first image of a photo post
+  media_keys: string[];
+  caption: string;
+  mode: string;
+  publish_id: string | null;
+  job_ref: string | null;         // scheduled job id or async init job id
+  error_code: string | null;
+  fingerprint: string | null;
+  api_key: string;                // hash prefix
+  client_ip: string | null;
+  result: any;
+};
+
+let HISTORY_SCHEMA: Promise<unknown> | undefined;
+
+function ensureHistorySchema(db: D1Database) {
+  HISTORY_SCHEMA ??= db.batch([
+    db.prepare(`CREATE TABLE IF NOT EXISTS post_history (
+      id TEXT PRIMARY KEY, open_id TEXT NOT NULL, created_at INTEGER NOT NULL, submitted_at INTEGER,
+      duration_ms INTEGER, source TEXT NOT NULL, status TEXT NOT NULL, ok INTEGER NOT NULL, type TEXT NOT NULL,
+      r2_key TEXT, media_keys TEXT, caption TEXT, mode TEXT, publish_id TEXT, job_ref TEXT, error_code TEXT,
+      fingerprint TEXT, api_key TEXT, client_ip TEXT, result TEXT)`),
+    db.prepare("CREATE INDEX IF NOT EXISTS post_history_open_created ON post_history (open_id, created_at, id)"),
+    db.prepare("CREATE INDEX IF NOT EXISTS post_history_key ON post_history (r2_key, created_at)"),
+  ]).catch((e) => {
+    HISTORY_SCHEMA = undefined;
+    throw e;
+  });
+  return HISTORY_SCHEMA;
+}
+
+// What the publish record keeps so the poller can write history rows without the original job
+function historyJobFields(job: PostJob) {
+  return {
+    api_hash: job.api_hash,
+    type: job.type,
+    key: job.key,
+    image_keys: job.image_keys,
+    caption: job.caption,
+    mode: job.mode,
+    idempotency_fingerprint: job.idempotency_fingerprint,
+    client_ip: job.client_ip,
+    submitted_at: job.submitted_at,
+  };
+}
+
+// Never throws: losing a history row must not fail the post it describes
+async function recordPostHistory(env: Env, job: PostJob, result: any, source: PostHistoryRow["source"]) {
+  try {
+    const now = Date.now();
+    const publishId = result?.publishId ?? result?.tiktok?.data?.publish_id ?? null;
+    const row: PostHistoryRow = {
+      id: crypto.randomUUID(),
+      open_id: job.open_id,
+      created_at: now,
+      submitted_at: job.submitted_at ?? null,
+      duration_ms: job.submitted_at ? now - job.submitted_at : null,
+      source,
+      status: String(result?.status ?? (result?.ok ? "accepted" : "failed")),
+      ok: !!result?.ok,
+      type: job.type ?? "video",
+      r2_key: job.key ?? job.image_keys?.[0] ?? null,
+      media_keys: job.image_keys ?? (job.key ? [job.key] : []),
+      caption: job.caption ?? "",
+      mode: job.mode,
+      publish_id: publishId,
+      job_ref: result?.jobId ?? null,
+      error_code: result?.ok ? null : (result?.error?.code ?? (typeof result?.error === "string" ? result.error : null)),
+      fingerprint: job.idempotency_fingerprint ?? (await requestFingerprint(job, undefined)),
+      api_key: (job.api_hash ?? "").slice(0, HISTORY_KEY_PREFIX_LEN),
+      client_ip: job.client_ip ?? null,
+      result,
+    };
+
+    if (env.POST_HISTORY_DB) {
+      await ensureHistorySchema(env.POST_HISTORY_DB);
+      await env.POST_HISTORY_DB.prepare(`INSERT INTO post_history (id, open_id, created_at, submitted_at, duration_ms,
+        source, status, ok, type, r2_key, media_keys, caption, mode, publish_id, job_ref, error_code, fingerprint,
+        api_key, client_ip, result) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).bind(
+        row.id, row.open_id, row.created_at, row.submitted_at, row.duration_ms, row.source, row.status, row.ok ? 1 : 0,
+        row.type, row.r2_key, JSON.stringify(row.media_keys), row.caption, row.mode, row.publish_id, row.job_ref,
+        row.error_code, row.fingerprint, row.api_key, row.client_ip, JSON.stringify(row.result)
+      ).run();
+      return;
+    }
+    const inverted = String(HISTORY_MAX_TS - now).padStart(13, "0");
+    await env.TOKENS_KV.put(`hist:${row.open_id}:${inverted}:${row.id}`, JSON.stringify(row), {
+      expirationTtl: HISTORY_KV_TTL,
+      metadata: { status: row.status, created_at: row.created_at },
+    });
+  } catch (e: any) {
+    console.log(`Post history write failed for ${job.open_id}: ${String(e?.message ?? e)}`);
+  }
+}
+
+function historyView(row: PostHistoryRow) {
+  const iso = (ms: number | null) => (ms ? new Date(ms).toISOString() : null);
+  return {
+    id: row.id,
+    openId: row.open_id,
+    at: iso(row.created_at),
+    submittedAt: iso(row.submitted_at),
+    durationMs: row.duration_ms,
+    source: row.source,
+    status: row.status,
+    ok: row.ok,
+    type: row.type,
+    key: row.r2_key,
+    mediaKeys: row.media_keys,
+    caption: row.caption,
+    mode: row.mode,
+    publishId: row.publish_id,
+    jobId: row.job_ref,
+    errorCode: row.error_code,
+    fingerprint: row.fingerprint,
+    apiKey: row.api_key,
+    clientIp: row.client_ip,
+    result: row.result,
+  };
+}
+
+function parseHistoryTime(raw: string | null): number | undefined | string {
+  if (!raw) return undefined;
+  const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(ms) ? ms : `invalid date ${JSON.stringify(raw)}: use ISO 8601 or epoch milliseconds`;
+}
+
+// GET /posts?from=&to=&status=&key=&account=&limit=&cursor= — newest first
+async function postHistory(req: Request, env: Env, url: URL) {
+  const auth = await authenticate(req, env, { prefix: "rk:status", ...routeRateLimit(env, "STATUS", { limit: 120, windowSec: 60 }) });
+  if (auth instanceof Response) return auth;
+
+  const q = url.searchParams;
+  const from = parseHistoryTime(q.get("from"));
+  const to = parseHistoryTime(q.get("to"));
+  if (typeof from === "string") return json({ ok: false, error: "invalid_query", message: from }, 400);
+  if (typeof to === "string") return json({ ok: false, error: "invalid_query", message: to }, 400);
+  const statuses = (q.get("status") ?? "").split(",").map((st) => st.trim()).filter(Boolean);
+  const key = q.get("key") || undefined;
+  const limit = Math.min(HISTORY_PAGE_MAX, Math.max(1, Number(q.get("limit")) || HISTORY_PAGE_DEFAULT));
+
+  let accounts = linkedAccounts(auth.apiMeta);
+  const selector = q.get("account");
+  if (selector) {
+    const acct = findAccount(auth.apiMeta, selector);
+    if (!acct) return json({ ok: false, error: "unknown_account", message: `No linked account matches "${selector}"` }, 404);
+    accounts = [acct];
+  }
+  let cursor: any;
+  if (q.get("cursor")) {
+    try {
+      cursor = JSON.parse(new TextDecoder().decode(fromB64url(q.get("cursor")!)));
+    } catch {
+      return json({ ok: false, error: "invalid_query", message: "invalid cursor" }, 400);
+    }
+  }
+  const page = await queryPostHistory(env, accounts, { from, to, statuses, key, limit, cursor });
+  return json({ ok: true, posts: page.rows.map(historyView), nextCursor: page.nextCursor });
+}
+
+// Newest first. The cursor is opaque to callers: { t, id } for D1, { a, c } (account index, KV cursor) for KV.
+async function queryPostHistory(
+  env: Env,
+  accounts: LinkedAccount[],
+  f: { from?: number; to?: number; statuses?: string[]; key?: string; limit: number; cursor?: any }
+): Promise<{ rows: PostHistoryRow[]; nextCursor: string | null }> {
+  const { from, to, key, limit, cursor } = f;
+  const statuses = f.statuses ?? [];
+  const encodeCursor = (c: any) => b64url(new TextEncoder().encode(JSON.stringify(c)));
+  if (!accounts.length) return { rows: [], nextCursor: null };
+
+  if (env.POST_HISTORY_DB) {
+    const db = env.POST_HISTORY_DB;
+    await ensureHistorySchema(db);
+    const where = [`open_id IN (${accounts.map(() => "?").join(", ")})`];
+    const args: any[] = accounts.map((a) => a.open_id);
+    if (from !== undefined) { where.push("created_at >= ?"); args.push(from); }
+    if (to !== undefined) { where.push("created_at <= ?"); args.push(to); }
+    if (statuses.length) { where.push(`status IN (${statuses.map(() => "?").join(", ")})`); args.push(...statuses); }
+    if (key) { where.push("r2_key = ?"); args.push(key); }
+    if (cursor) { where.push("(created_at < ? OR (created_at = ? AND id < ?))"); args.push(cursor.t, cursor.t, cursor.id); }
+    const { results } = await db.prepare(
+      `SELECT * FROM post_history WHERE ${where.join(" AND ")} ORDER BY created_at DESC, id DESC LIMIT ?`
+    ).bind(...args, limit + 1).all<any>();
+    const rows: PostHistoryRow[] = results.slice(0, limit).map((r) => ({
+      ...r,
+      ok: !!r.ok,
+      media_keys: tryParse(r.media_keys ?? "") ?? [],
+      result: tryParse(r.result ?? ""),
+    }));
+    const last = rows[rows.length - 1];
+    return { rows, nextCursor: results.length > limit ? encodeCursor({ t: last.created_at, id: last.id }) : null };
+  }
+
+  // KV: newest first within each account, one account after another. `to` can't seek, so newer
+  // rows are skipped while listing; `from` stops the account once rows get older.
+  const rows: PostHistoryRow[] = [];
+  let acctIndex = cursor?.a ?? 0;
+  let kvCursor: string | undefined = cursor?.c;
+  while (acctIndex < accounts.length && rows.length < limit) {
+    const page = await env.TOKENS_KV.list<{ status: string; created_at: number }>({
+      prefix: `hist:${accounts[acctIndex].open_id}:`,
+      cursor: kvCursor,
+      limit: limit - rows.length,
+    });
+    kvCursor = page.list_complete ? undefined : page.cursor;
+    let reachedFrom = false;
+    for (const k of page.keys) {
+      const meta = k.metadata;
+      if (meta && from !== undefined && meta.created_at < from) { reachedFrom = true; break; }
+      if (meta && to !== undefined && meta.created_at > to) continue;
+      if (meta && statuses.length && !statuses.includes(meta.status)) continue;
+      const row: PostHistoryRow | null = tryParse((await env.TOKENS_KV.get(k.name)) || "");
+      if (!row || (key && row.r2_key !== key)) continue;
+      rows.push(row);
+    }
+    if (reachedFrom || !kvCursor) {
+      acctIndex++;
+      kvCursor = undefined;
+    }
+  }
+  return { rows, nextCursor: acctIndex < accounts.length ? encodeCursor({ a: acctIndex, c: kvCursor }) : null };
+}
+
+// ---- Dashboard ----
+// /dashboard: one API key's accounts, token health, settings, recent posts and a test-post form.
+// The key is typed in once and swapped for a signed session cookie — <base64url {h, exp, sid}>.<hmac hex> —
+// keyed by SESSION_SECRET (or a key derived from TIKTOK_CLIENT_SECRET). Nothing is stored server-side:
+// each request re-checks api:<hash>, so a revoked key (or a rotated one past its grace) ends its sessions.
+const SESSION_COOKIE = "__Host-r2tt_session";
+const SESSION_TTL_SEC = 3600;
+const DASHBOARD_RECENT_POSTS = 20;
+
+type DashboardSession = { h: string; exp: number; sid: string };
+
+type TestPostOutcome = {
+  dry: boolean;
+  source: string;
+  media: string;
+  caption: string;
+  account: string;
+  result: any;
+  status: number;
+};
+
+function sessionSecret(env: Env) {
+  return env.SESSION_SECRET ? Promise.resolve(env.SESSION_SECRET) : hmacSha256Hex(env.TIKTOK_CLIENT_SECRET, "dashboard-session");
+}
+
+async function mintSession(env: Env, hash: string) {
+  const session: DashboardSession = { h: hash, exp: Date.now() + SESSION_TTL_SEC * 1000, sid: crypto.randomUUID() };
+  const payload = b64url(new TextEncoder().encode(JSON.stringify(session)));
+  return `${payload}.${await hmacSha256Hex(await sessionSecret(env), payload)}`;
+}
+
+async function readSession(req: Request, env: Env): Promise<DashboardSession | undefined> {
+  const raw = (req.headers.get("cookie") ?? "").split(/;\s*/)
+    .find((c) => c.startsWith(`${SESSION_COOKIE}=`))?.slice(SESSION_COOKIE.length + 1);
+  const [payload, sig] = (raw ?? "").split(".");
+  if (!payload || !sig) return undefined;
+  if (!timingSafeEqual(sig, await hmacSha256Hex(await sessionSecret(env), payload))) return undefined;
+  const session = tryParse(new TextDecoder().decode(fromB64url(payload)));
+  return session?.h && session.exp > Date.now() ? session : undefined;
+}
+
+function sessionCookie(value: string, maxAgeSec: number) {
+  return `${SESSION_COOKIE}=${value}; Path=/; Max-Age=${maxAgeSec}; HttpOnly; Secure; SameSite=Strict`;
+}
+
+// Sent with every dashboard form as well, for browsers that don't enforce SameSite
+async function csrfToken(env: Env, session: DashboardSession) {
+  return hmacSha256Hex(await sessionSecret(env), `csrf:${session.sid}`);
+}
+
+function dashboardPage(title: string, body: SafeHtml, status = 200, headers: Record<string, string> = {}) {
+  return page({ title, body, status, headers: { "cache-control": "no-store", ...headers } });
+}
+
+export function dashboardLoginPage(message?: string, status = 200, headers: Record<string, string> = {}) {
+  return dashboardPage("Dashboard sign-in", html`
+  <div class="min-h-[80vh] flex items-center justify-center">
+    <form method="POST" action="/dashboard/login" class="w-full max-w-md bg-white rounded-2xl p-6 shadow">
+      <h1 class="text-2xl font-bold mb-2">Dashboard</h1>
+      <p class="text-black/70 mb-4">Sign in with your API key. It is only used to start a one-hour session.</p>
+      ${message ? html`<p class="mb-4 rounded bg-red-100 text-brandred px-3 py-2 text-sm">${message}</p>` : ""}
+      <label class="block text-sm text-black/70 mb-1" for="api_key">API key</label>
+      <input id="api_key" name="api_key" type="password" autocomplete="off" required placeholder="rk_live_…"
+             class="w-full rounded border border-black/20 px-3 py-2 mb-4"/>
+      <button class="w-full rounded bg-brandred text-white px-4 py-2">Sign in</button>
+      <div class="flex items-center justify-center mt-2">
+        <a href="/keys/new" class="text-sm text-center text-brandred hover:underline">Need a key?</a>
+      </div>
+    </form>
+  </div>`, status, headers);
+}
+
+// GET /dashboard, POST /dashboard/login, POST /dashboard/logout, POST /dashboard/post
+async function dashboardRoutes(req: Request, env: Env, ctx: ExecutionContext, url: URL) {
+  if (url.pathname === "/dashboard/login" && req.method === "POST") return dashboardLogin(req, env);
+  if (url.pathname === "/dashboard/logout" && req.method === "POST") {
+    return new Response(null, { status: 303, headers: { location: "/dashboard", "set-cookie": sessionCookie("", 0) } });
+  }
+
+  const session = await readSession(req, env);
+  const auth = session ? await loadApiKey(env, session.h) : undefined;
+  if (!session || !auth || auth instanceof Response) {
+    return session
+      ? dashboardLoginPage("Your session has ended. Sign in again.", 401, { "set-cookie": sessionCookie("", 0) })
+      : dashboardLoginPage();
+  }
+
+  if (url.pathname === "/dashboard" && req.method === "GET") return renderDashboard(env, auth, session);
+  if (url.pathname === "/dashboard/post" && req.method === "POST") return dashboardTestPost(req, env, ctx, auth, session);
+  return dashboardPage("Not found", html`<p class="text-center text-black/70">Nothing here. <a class="text-brandred hover:underline" href="/dashboard">Back to the dashboard</a></p>`, 404);
+}
+
+async function dashboardLogin(req: Request, env: Env) {
+  const cfg = routeRateLimit(env, "DASHBOARD", { limit: 10, windowSec: 300 });
+  const rl = await enforceRate(env, `rk:dashboard:${getClientIp(req)}`, cfg.limit, cfg.windowSec);
+  if (!rl.allowed) return dashboardLoginPage("Too many sign-in attempts. Try again in a few minutes.", 429);
+
+  const form = await req.formData().catch(() => null);
+  const apiKey = String(form?.get("api_key") ?? "").trim();
+  if (!apiKey) return dashboardLoginPage("Enter your API key.", 400);
+  const auth = await loadApiKey(env, await sha256Base64Url(apiKey));
+  if (auth instanceof Response) {
+    const err = tryParse(await safeText(auth));
+    return dashboardLoginPage(err?.message ?? (err?.error === "unauthorised" ? "Unknown API key." : String(err?.error ?? "Sign-in failed.")), 401);
+  }
+  return new Response(null, {
+    status: 303,
+    headers: { location: "/dashboard", "set-cookie": sessionCookie(await mintSession(env, auth.hash), SESSION_TTL_SEC) },
+  });
+}
+
+// Same path as /webhook, limited to dry runs and SELF_ONLY drafts
+async function dashboardTestPost(
+  req: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  auth: { hash: string; apiMeta: any },
+  session: DashboardSession
+) {
+  const form = await req.formData().catch(() => null);
+  if (!form || !timingSafeEqual(String(form.get("csrf") ?? ""), await csrfToken(env, session))) {
+    return dashboardPage("Forbidden", html`<p class="text-center text-black/70">This form has expired. <a class="text-brandred hover:underline" href="/dashboard">Reload the dashboard</a></p>`, 403);
+  }
+  const scopes: KeyScopes = auth.apiMeta.scopes ?? {};
+  const cfg = webhookRateLimit(env, scopes);
+  const rl = await enforceRate(env, `rk:webhook:${auth.hash}`, cfg.limit, cfg.windowSec);
+  if (!rl.allowed) {
+    return dashboardPage("Rate limited", html`<p class="text-center text-black/70">This key is over its posting rate limit. <a class="text-brandred hover:underline" href="/dashboard">Back to the dashboard</a></p>`, 429);
+  }
+  touchApiKey(env, ctx, auth.hash, auth.apiMeta);
+
+  const field = (name: string) => String(form.get(name) ?? "").trim();
+  const test = {
+    dry: field("run") !== "draft",
+    source: ["id", "key", "url"].includes(field("source")) ? field("source") : "id",
+    media: field("media"),
+    caption: field("caption"),
+    account: field("account"),
+  };
+  const body: any = {
+    [test.source]: test.media,
+    caption: test.caption,
+    mode: "draft",
+    privacy: "SELF_ONLY",
+    ...(test.account ? { account: test.account } : {}),
+  };
+
+  const parsed = await parsePostRequest(env, auth, body, { dry: test.dry, clientIp: getClientIp(req) });
+  const { result, status } = "error" in parsed
+    ? { result: parsed.error, status: parsed.status }
+    : await runPostJob(env, { ...parsed.baseJob, open_id: parsed.targets[0].open_id }, parsed.at, { dry: test.dry });
+  return renderDashboard(env, auth, session, { ...test, result, status });
+}
+
+function statusBadge(status: string, ok: boolean) {
+  const tone = ok ? "bg-green-100 text-green-800" : /fail|reject|dead/.test(status) ? "bg-red-100 text-brandred" : "bg-black/5 text-black/70";
+  return html`<span class="rounded px-2 py-0.5 text-xs ${tone}">${status}</span>`;
+}
+
+async function renderDashboard(env: Env, auth: { hash: string; apiMeta: any }, session: DashboardSession, test?: TestPostOutcome) {
+  const key = keyView(auth.hash, auth.apiMeta, await keyUsage(env, auth.hash, auth.apiMeta));
+  const accounts = await accountsView(env, auth.apiMeta);
+  const { rows } = await queryPostHistory(env, linkedAccounts(auth.apiMeta), { limit: DASHBOARD_RECENT_POSTS });
+  const csrf = await csrfToken(env, session);
+  const when = (iso: string | null) => (iso ? `${iso.slice(0, 16).replace("T", " ")} UTC` : "–");
+
+  const accountRows = accounts.map((a) => {
+    const health = a.tokenUnreadable
+      ? html`<span class="text-brandred">Token unreadable, reconnect</span>`
+      : a.needsReauth
+        ? html`<span class="text-brandred">Needs reconnecting</span>`
+        : a.refreshExpiresAt && Date.parse(a.refreshExpiresAt) - Date.now() < REFRESH_EXPIRY_WARN_DAYS * 86400_000
+          ? html`<span class="text-amber-700">Refresh token expires ${when(a.refreshExpiresAt)}</span>`
+          : html`<span class="text-green-700">Healthy</span>`;
+    return html`<tr class="border-t border-black/10">
+          <td class="py-2 pr-4">${a.label ?? "–"}${a.default && html` <span class="text-xs text-black/50">(default)</span>`}</td>
+          <td class="py-2 pr-4 font-mono text-xs">${a.openId}</td>
+          <td class="py-2 pr-4">${health}</td>
+          <td class="py-2">${when(a.linkedAt)}</td>
+        </tr>`;
+  });
+
+  const postRows = rows.map(historyView).map((p) => html`<tr class="border-t border-black/10 align-top">
+          <td class="py-2 pr-4 whitespace-nowrap">${when(p.at)}</td>
+          <td class="py-2 pr-4">${statusBadge(p.status, p.ok)}${p.errorCode ? html`<div class="text-xs text-black/60 mt-1">${p.errorCode}</div>` : ""}</td>
+          <td class="py-2 pr-4 font-mono text-xs break-all">${p.key ?? "–"}</td>
+          <td class="py-2 pr-4 max-w-xs truncate" title="${p.caption}">${p.caption || "–"}</td>
+          <td class="py-2 font-mono text-xs break-all">${p.publishId ?? "–"}</td>
+        </tr>`);
+
+  const testResult = test ? html`
+      <div class="mt-4">
+        <p class="text-sm">${test.dry ? "Dry run" : "Draft"} → HTTP ${test.status} ${statusBadge(String(test.result?.status ?? (test.result?.ok ? "ok" : "error")), !!test.result?.ok)}</p>
+        <pre class="mt-2 rounded bg-black/90 text-white p-4 text-xs overflow-x-auto whitespace-pre-wrap break-words">${JSON.stringify(test.result, null, 2)}</pre>
+      </div>` : "";
+
+  const selected = (cond: boolean) => (cond ? " selected" : "");
+  return dashboardPage("Dashboard", html`
+  <div class="max-w-5xl mx-auto space-y-6">
+    <header class="flex items-center justify-between">
+      <div>
+        <h1 class="text-2xl font-bold">Dashboard</h1>
+        <p class="text-black/70 text-sm">Key ${key.hashPrefix}…${key.label ? ` · ${key.label}` : ""}</p>
+      </div>
+      <form method="POST" action="/dashboard/logout"><button class="rounded border border-brandred text-brandred px-4 py-2">Sign out</button></form>
+    </header>
+
+    <section class="bg-white rounded-2xl p-6 shadow-soft">
+      <h2 class="text-lg font-semibold mb-3">TikTok accounts</h2>
+      ${accounts.length ? html`<table class="w-full text-sm text-left">
+        <thead class="text-black/60"><tr><th class="pb-2 pr-4">Account</th><th class="pb-2 pr-4">open_id</th><th class="pb-2 pr-4">Token</th><th class="pb-2">Linked</th></tr></thead>
+        <tbody>${accountRows}</tbody>
+      </table>` : html`<p class="text-black/70">No accounts linked.</p>`}
+    </section>
+
+    <section class="bg-white rounded-2xl p-6 shadow-soft">
+      <h2 class="text-lg font-semibold mb-3">API key</h2>
+      <dl class="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div><dt class="text-black/60">Status</dt><dd>${key.status}</dd></div>
+        <div><dt class="text-black/60">Created</dt><dd>${when(key.createdAt)}</dd></div>
+        <div><dt class="text-black/60">Last used</dt><dd>${when(key.lastUsedAt)}</dd></div>
+        <div><dt class="text-black/60">Requests</dt><dd>${key.useCount}</dd></div>
+        ${key.graceUntil ? html`<div><dt class="text-black/60">Rotated, works until</dt><dd>${when(key.graceUntil)}</dd></div>` : ""}
+      </dl>
+      ${key.scopes ? html`<pre class="mt-4 rounded bg-black/5 p-3 text-xs text-black/70 whitespace-pre-wrap">Restrictions: ${JSON.stringify(key.scopes, null, 2)}</pre>` : ""}
+      ${key.caption ? html`<pre class="mt-4 rounded bg-black/5 p-3 text-xs text-black/70 whitespace-pre-wrap">Caption settings: ${JSON.stringify(key.caption, null, 2)}</pre>` : ""}
+    </section>
+
+    <section class="bg-white rounded-2xl p-6 shadow-soft">
+      <h2 class="text-lg font-semibold mb-3">Recent posts</h2>
+      ${rows.length ? html`<div class="overflow-x-auto"><table class="w-full text-sm text-left">
+        <thead class="text-black/60"><tr><th class="pb-2 pr-4">When</th><th class="pb-2 pr-4">Status</th><th class="pb-2 pr-4">R2 key</th><th class="pb-2 pr-4">Caption</th><th class="pb-2">publish_id</th></tr></thead>
+        <tbody>${postRows}</tbody>
+      </table></div>` : html`<p class="text-black/70">No posts yet.</p>`}
+    </section>
+
+    <section class="bg-white rounded-2xl p-6 shadow-soft">
+      <h2 class="text-lg font-semibold mb-1">Test post</h2>
+      <p class="text-black/70 text-sm mb-4">A dry run checks everything without calling TikTok's init. A draft is sent to the creator's inbox as private (SELF_ONLY).</p>
+      <form method="POST" action="/dashboard/post" class="grid gap-3 md:grid-cols-2 text-sm">
+        <input type="hidden" name="csrf" value="${csrf}"/>
+        <label class="block">
+          <span class="text-black/70">Media</span>
+          <div class="flex gap-2 mt-1">
+            <select name="source" class="rounded border border-black/20 px-2 py-2">
+              <option value="id"${selected(test?.source === "id")}>id</option>
+              <option value="key"${selected(test?.source === "key")}>R2 key</option>
+              <option value="url"${selected(test?.source === "url")}>URL</option>
+            </select>
+            <input name="media" required value="${test?.media ?? ""}" class="flex-1 rounded border border-black/20 px-3 py-2"/>
+          </div>
+        </label>
+        <label class="block">
+          <span class="text-black/70">Account</span>
+          <select name="account" class="mt-1 w-full rounded border border-black/20 px-2 py-2">
+            ${accounts.map((a) => html`<option value="${a.openId}"${selected(test ? test.account === a.openId : a.default)}>${a.label ?? a.openId}</option>`)}
+          </select>
+        </label>
+        <label class="block md:col-span-2">
+          <span class="text-black/70">Caption</span>
+          <textarea name="caption" rows="3" class="mt-1 w-full rounded border border-black/20 px-3 py-2">${test?.caption ?? ""}</textarea>
+        </label>
+        <div class="flex gap-3 md:col-span-2">
+          <button name="run" value="dry" class="rounded bg-brandred text-white px-4 py-2">Dry run</button>
+          <button name="run" value="draft" class="rounded border border-brandred text-brandred px-4 py-2">Send as draft</button>
+        </div>
+      </form>
+      ${testResult}
+    </section>
+  </div>`);
+}
+
+// ---- Completion callbacks ----
+// cbq:<api_hash>:<delivery_id>    → pending delivery marker (metadata.next_at drives the retry schedule)
+// cblog:<api_hash>:<delivery_id>  → full delivery record + attempt log, readable via GET /callbacks/deliveries
+const CALLBACK_MAX_ATTEMPTS = 8;
+const CALLBACK_BASE_DELAY_SEC = 30;     // 30s, 60s, 120s … doubling per failed attempt
+const CALLBACK_TIMEOUT_MS = 10_000;
+const CALLBACK_LOG_TTL = 7 * 86400;
+const CALLBACK_SIGNATURE_HEADER = "X-R2TT-Signature";
+
+// [network, prefix length] ranges that are never publicly reachable (RFC 6890 special-purpose IPv4)
+const PRIVATE_IPV4_RANGES: [number, number][] = [
+  [0x00000000, 8],    // 0.0.0.0/8 ("this network")
+  [0x0a000000, 8],    // 10.0.0.0/8
+  [0x64400000, 10],   // 100.64.0.0/10 (carrier-grade NAT)
+  [0x7f000000, 8],    // 127.0.0.0/8
+  [0xa9fe0000, 16],   // 169.254.0.0/16 (link-local, cloud metadata)
+  [0xac100000, 12],   // 172.16.0.0/12
+  [0xc0000000, 24],   // 192.0.0.0/24
+  [0xc0a80000, 16],   // 192.168.0.0/16
+  [0xc6120000, 15],   // 198.18.0.0/15 (benchmarking)
+  [0xe0000000, 3],    // 224.0.0.0/3 (multicast, reserved, broadcast)
+];
+
+// The URL parser already normalises 0x7f.1, 2130706433 etc. to dotted quads
+function isPrivateHost(hostname: string) {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  // IPv6 literals ([::1], [fc00::…], [::ffff:10.0.0.1]…) are rejected outright
+  if (host.startsWith("[")) return true;
+  if (host === "localhost" || /\.(localhost|local|internal)$/.test(host)) return true;
+  const m = host.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (!m) return false;
+  const ip = ((+m[1] << 24) | (+m[2] << 16) | (+m[3] << 8) | +m[4]) >>> 0;
+  return PRIVATE_IPV4_RANGES.some(([net, bits]) => (ip >>> (32 - bits)) === (net >>> (32 - bits)));
+}
+
+function validateCallbackUrl(raw: unknown): string | undefined {
+  if (typeof raw !== "string" || !raw) return "callbackUrl must be a non-empty string";
+  let u: URL;
+  try { u = new URL(raw); } catch { return "callbackUrl is not a valid URL"; }
+  if (u.protocol !== "https:") return "callbackUrl must use https";
+  if (isPrivateHost(u.hostname)) return "callbackUrl must be publicly reachable";
+  return undefined;
+}
+
+async function mintSigningSecret() {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return `whsec_${b64url(bytes)}`;
+}
+
+// Deliveries recorded under a rotated key are signed with the current key's secret. Keys created before
+// secrets were issued at creation get one on their first callback, so every delivery is signed; its
+// owner can read it by rotating it with POST /callbacks. Revoked keys without a secret get none.
+async function signingSecretFor(env: Env, apiHash: string) {
+  const hash = await currentApiHash(env, apiHash);
+  const meta = tryParse((await env.TOKENS_KV.get(`api:${hash}`)) || "");
+  if (!meta) return undefined;
+  if (meta.signing_secret) return meta.signing_secret as string;
+  const updated = await updateApiKeySettings(env, hash, async (m) => {
+    m.signing_secret ??= await mintSigningSecret();
+  });
+  return updated instanceof Response ? undefined : updated.signing_secret as string;
+}
+
+// Header value: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>">
+async function signCallback(secret: string, body: string, ts = Math.floor(Date.now() / 1000)) {
+  return `t=${ts},v1=${await hmacSha256Hex(secret, `${ts}.${body}`)}`;
+}
+
+async function enqueueCallback(env: Env, apiHash: string, url: string, payload: Record<string, any>) {
+  const now = Date.now();
+  const delivery = {
+    id: crypto.randomUUID(),
+    api_hash: apiHash,
+    url,
+    payload,
+    status: "pending",
+    attempts: [] as { at: number; status?: number; error?: string }[],
+    next_at: now,
+    created_at: now,
+  };
+  await deliverCallback(env, delivery);
+}
+
+// One attempt; reschedules with backoff or gives up after CALLBACK_MAX_ATTEMPTS.
+async function deliverCallback(env: Env, d: any) {
+  const now = Date.now();
+  const body = JSON.stringify({ ...d.payload, deliveryId: d.id, attempt: d.attempts.length + 1 });
+
+  let attempt: { at: number; status?: number; error?: string } = { at: now };
+  let delivered = false;
+  try {
+    const secret = await signingSecretFor(env, d.api_hash);
+    // A deleted key, or a revoked one without a secret, can't sign; never send an unsigned delivery
+    if (!secret) throw new Error("API key no longer exists or has no signing secret");
+    const headers: Record<string, string> = {
+      "content-type": "application/json",
+      [CALLBACK_SIGNATURE_HEADER]: await signCallback(secret, body),
+    };
+    const r = await fetch(d.url, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+    });
+    attempt.status = r.status;
+    delivered = r.ok;
+    if (!r.ok) attempt.error = (await safeText(r)).slice(0, 200);
+  } catch (e: any) {
+    attempt.error = String(e?.message ?? e);
+  }
+
+  d.attempts.push(attempt);
+  const queueKey = `cbq:${d.api_hash}:${d.id}`;
+  if (delivered) {
+    d.status = "delivered";
+    d.next_at = null;
+    await env.TOKENS_KV.delete(queueKey);
+  } else if (d.attempts.length >= CALLBACK_MAX_ATTEMPTS) {
+    d.status = "failed";
+    d.next_at = null;
+    await env.TOKENS_KV.delete(queueKey);
+  } else {
+    d.next_at = now + CALLBACK_BASE_DELAY_SEC * 1000 * 2 ** (d.attempts.length - 1);
+    await env.TOKENS_KV.put(queueKey, "", { metadata: { next_at: d.next_at } });
+  }
+  await env.TOKENS_KV.put(`cblog:${d.api_hash}:${d.id}`, JSON.stringify(d), { expirationTtl: CALLBACK_LOG_TTL });
+  return d;
+}
+
+// Retry every due delivery (called from scheduled()).
+async function processCallbackQueue(env: Env) {
+  const now = Date.now();
+  let cursor: string | undefined;
+  let attempted = 0;
+
+  do {
+    const page = await env.TOKENS_KV.list<{ next_at: number }>({ prefix: "cbq:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      if ((k.metadata?.next_at ?? 0) > now) continue;
+      const [, apiHash, deliveryId] = k.name.split(":");
+      const d = tryParse((await env.TOKENS_KV.get(`cblog:${apiHash}:${deliveryId}`)) || "");
+      if (!d || d.status !== "pending") {
+        await env.TOKENS_KV.delete(k.name);
+        continue;
+      }
+      attempted++;
+      await deliverCallback(env, d);
+    }
+  } while (cursor);
+
+  console.log(`Callback queue done. Attempted=${attempted}`);
+}
+
+// GET /callbacks → current config; POST /callbacks → set default URL and/or (re)issue the signing secret
+async function callbackConfig(req: Request, env: Env) {
+  const auth = await authenticate(req, env);
+  if (auth instanceof Response) return auth;
+  const meta = auth.apiMeta;
+
+  if (req.method === "POST") {
+    const body = await req.json().catch(() => ({})) as { callbackUrl?: string | null; rotateSecret?: boolean };
+    if (body.callbackUrl !== undefined && body.callbackUrl !== null) {
+      const cbErr = validateCallbackUrl(body.callbackUrl);
+      if (cbErr) return json({ ok: false, error: "invalid_callback_url", message: cbErr }, 400);
+    }
+
+    let issuedSecret: string | undefined;
+    const updated = await updateApiKeySettings(env, auth.hash, async (m) => {
+      if (body.callbackUrl !== undefined) m.callback_url = body.callbackUrl || null;
+      if (!m.signing_secret || body.rotateSecret) {
+        issuedSecret = await mintSigningSecret();
+        m.signing_secret = issuedSecret;
+      }
+    });
+    if (updated instanceof Response) return updated;
+    return json({
+      ok: true,
+      callbackUrl: updated.callback_url ?? null,
+      signatureHeader: CALLBACK_SIGNATURE_HEADER,
+      // Shown once, like the API key itself
+      ...(issuedSecret ? { signingSecret: issuedSecret } : {}),
+    });
+  }
+
+  return json({
+    ok: true,
+    callbackUrl: meta.callback_url ?? null,
+    hasSigningSecret: !!meta.signing_secret,
+    signatureHeader: CALLBACK_SIGNATURE_HEADER,
+  });
+}
+
+async function callbackDeliveries(req: Request, env: Env, url: URL) {
+  const auth = await authenticate(req, env);
+  if (auth instanceof Response) return auth;
+
+  const limit = Math.min(100, Math.max(1, parseInt(url.searchParams.get("limit") || "20", 10) || 20));
+  const page = await env.TOKENS_KV.list({
+    prefix: `cblog:${auth.hash}:`,
+    cursor: url.searchParams.get("cursor") || undefined,
+    limit,
+  });
+
+  const deliveries = [];
+  for (const k of page.keys) {
+    const d = tryParse((await env.TOKENS_KV.get(k.name)) || "");
+    if (!d) continue;
+    deliveries.push({
+      id: d.id,
+      url: d.url,
+      event: d.payload?.event,
+      publishId: d.payload?.publishId,
+      status: d.status,
+      attempts: d.attempts,
+      nextAttemptAt: d.next_at ? new Date(d.next_at).toISOString() : null,
+      createdAt: new Date(d.created_at).toISOString(),
+    });
+  }
+  return json({ ok: true, deliveries, cursor: page.list_complete ? null : page.cursor });
+}
+
+export async function getAccessTokenFor(env: Env, kvKey: string): Promise<string> {
+  // migrate: legacy plaintext / old-key records are re-sealed as they're read
+  let tok = await readTokenRecord(env, kvKey, { migrate: true });
+  if (!tok) throw new Error("Not authorised for this account. Connect TikTok first.");
+  if (tokenValidFor(tok, TOKEN_REFRESH_EARLY_MS)) return tok.access_token;
+  if (tok.needs_reauth) throw new Error(`needs_reauth: ${tok.reauth_reason ?? "refresh token rejected"}. Reconnect TikTok.`);
+
+  tok = await refreshAccessToken(env, kvKey, TOKEN_REFRESH_EARLY_MS);
+  return tok.access_token;
+}
+
+const TOKEN_REFRESH_EARLY_MS = 120_000; // refresh 2 min early
+
+function tokenValidFor(tok: any, ms: number) {
+  const issuedAt = tok.obtained_at ?? Date.now();
+  const expiresIn = tok.expires_in ?? 3600;
+  return !!tok.access_token && issuedAt + expiresIn * 1000 - Date.now() > ms;
+}
+
+// TikTok rotates refresh tokens, so two concurrent refreshes for one account can leave KV holding a
+// dead one. All refreshes for a tok:open:<open_id> record go through one TokenRefreshLock instance;
+// without the binding (e.g. a plain `wrangler dev`) we fall back to refreshing directly.
+async function refreshAccessToken(env: Env, kvKey: string, minValidMs: number) {
+  if (!env.TOKEN_LOCK) {
+    const tok = await readTokenRecord(env, kvKey);
+    if (!tok) throw new Error("Not authorised for this account. Connect TikTok first.");
+    return tokenValidFor(tok, minValidMs) ? tok : refreshStoredToken(env, kvKey, tok);
+  }
+  const stub = env.TOKEN_LOCK.get(env.TOKEN_LOCK.idFromName(kvKey));
+  const r = await stub.fetch("https://token-lock/refresh", {
+    method: "POST",
+    body: JSON.stringify({ kvKey, minValidMs }),
+  });
+  const out: any = await r.json();
+  if (!out.ok) throw new Error(out.error);
+  return out.tok;
+}
+
+// One instance per token record. Concurrent callers share a single in-flight refresh; callers that
+// arrive after it finished get the stored result, since KV may serve the old record for up to 60s.
+export class TokenRefreshLock {
+  private inflight?: Promise<any>;
+
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(req: Request) {
+    const { kvKey, minValidMs } = await req.json() as { kvKey: string; minValidMs: number };
+    if (!this.inflight) {
+      this.inflight = this.refresh(kvKey, minValidMs).finally(() => { this.inflight = undefined; });
+    }
+    try {
+      return Response.json({ ok: true, tok: await this.inflight });
+    } catch (e: any) {
+      return Response.json({ ok: false, error: String(e?.message ?? e) }, { status: 502 });
+    }
+  }
+
+  private async refresh(kvKey: string, minValidMs: number) {
+    const kvTok = await readTokenRecord(this.env, kvKey);
+    if (!kvTok) {
+      // Disconnected: don't let our copy resurrect deleted tokens
+      await this.state.storage.delete("tok");
+      throw new Error("Not authorised for this account. Connect TikTok first.");
+    }
+    // Prefer whichever record is newer; on a tie KV wins (it carries needs_reauth marks)
+    const { tok: ours, rewrite } = await this.storedCopy(kvKey);
+    let tok = ours && (ours.obtained_at ?? 0) > (kvTok.obtained_at ?? 0) ? ours : kvTok;
+    if (rewrite) await this.state.storage.put("tok", await tokenCrypto(this.env).seal(tok, kvKey));
+
+    if (tokenValidFor(tok, minValidMs)) return tok;
+    if (tok.needs_reauth) throw new Error(`needs_reauth: ${tok.reauth_reason ?? "refresh token rejected"}. Reconnect TikTok.`);
+
+    tok = await refreshStoredToken(this.env, kvKey, tok);
+    await this.state.storage.put("tok", await tokenCrypto(this.env).seal(tok, kvKey));
+    return tok;
+  }
+
+  // Our copy is sealed like the KV record, but reencryptTokens only walks KV: a copy under an older
+  // master key is re-sealed here, and one that can't be opened any more (key dropped, or a plain object
+  // stored before copies were sealed) is ignored so KV wins and replaces it.
+  private async storedCopy(kvKey: string): Promise<{ tok?: any; rewrite: boolean }> {
+    const stored = await this.state.storage.get<unknown>("tok");
+    if (stored === undefined) return { rewrite: false };
+    if (typeof stored !== "string") return { rewrite: true };
+    try {
+      const { value, stale } = await tokenCrypto(this.env).open(stored, kvKey);
+      return { tok: value, rewrite: stale };
+    } catch (e: any) {
+      console.log(`Token lock: cannot read stored copy for ${kvKey}: ${String(e?.message ?? e)}`);
+      return { rewrite: true };
+    }
+  }
+}
+
+// grant_type=refresh_token. A rejected refresh (4xx / error body) marks the record needs_reauth so
+// we stop retrying a dead token; 5xx is treated as transient and leaves the record alone.
+async function refreshStoredToken(env: Env, kvKey: string, tok: any) {
+  const body = new URLSearchParams({
+    client_key: env.TIKTOK_CLIENT_KEY,
+    client_secret: env.TIKTOK_CLIENT_SECRET,
+    grant_type: "refresh_token",
+    refresh_token: tok.refresh_token
+  });
+  const r = await fetch(env.TOKEN_URL, {
+    method: "POST",
+    headers: { "content-type": "application/x-www-form-urlencoded" },
+    body
+  });
+  const text = await safeText(r);
+  const data = tryParse(text);
+  if (!r.ok || !data?.access_token) {
+    if (r.status < 500) {
+      await writeTokenRecord(env, kvKey, {
+        ...tok,
+        needs_reauth: true,
+        reauth_reason: data?.error_description ?? data?.error ?? `token endpoint returned ${r.status}`,
+        needs_reauth_at: Date.now(),
+      });
+    }
+    throw new Error(`Refresh failed: ${text}`);
+  }
+  const now = Date.now();
+  tok = {
+    ...tok,
+    ...data,
+    obtained_at: now,
+    refresh_expires_at: data.refresh_expires_in ? now + data.refresh_expires_in * 1000 : tok.refresh_expires_at,
+  };
+  await writeTokenRecord(env, kvKey, tok);
+  return tok;
+}
+
+// ---- Token records (tok:open:<open_id>) ----
+// Sealed with TOKEN_ENC_KEYS when that secret is set (see tokenCrypto.ts), plaintext otherwise.
+// Always go through these helpers — never read or write tok:open: records directly.
+let TOKEN_CRYPTO: { spec?: string; crypto: ReturnType<typeof makeTokenCrypto> } | undefined;
+
+function tokenCrypto(env: Env) {
+  if (!TOKEN_CRYPTO || TOKEN_CRYPTO.spec !== env.TOKEN_ENC_KEYS) {
+    TOKEN_CRYPTO = { spec: env.TOKEN_ENC_KEYS, crypto: makeTokenCrypto({ TOKEN_ENC_KEYS: env.TOKEN_ENC_KEYS }) };
+  }
+  return TOKEN_CRYPTO.crypto;
+}
+
+async function readTokenRecord(env: Env, kvKey: string, opts: { migrate?: boolean } = {}) {
+  const raw = await env.TOKENS_KV.get(kvKey);
+  if (!raw) return null;
+  const { value, stale } = await tokenCrypto(env).open(raw, kvKey);
+  if (stale && opts.migrate) await writeTokenRecord(env, kvKey, value);
+  return value;
+}
+
+async function writeTokenRecord(env: Env, kvKey: string, tok: any) {
+  await env.TOKENS_KV.put(kvKey, await tokenCrypto(env).seal(tok, kvKey));
+}
+
+// Re-seal records that are still plaintext or under an older master key (daily; after adding a new
+// key to the front of TOKEN_ENC_KEYS, the old one can be dropped once this logs Stale=0).
+async function reencryptTokens(env: Env) {
+  const c = tokenCrypto(env);
+  if (!c.enabled) return;
+  let cursor: string | undefined;
+  let stale = 0;
+  let failed = 0;
+
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: "tok:open:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      const raw = await env.TOKENS_KV.get(k.name);
+      if (!raw) continue;
+      try {
+        const opened = await c.open(raw, k.name);
+        if (!opened.stale) continue;
+        await env.TOKENS_KV.put(k.name, await c.seal(opened.value, k.name));
+        stale++;
+      } catch (e: any) {
+        failed++;
+        console.log(`Re-encrypt: cannot read ${k.name}: ${String(e?.message ?? e)}`);
+      }
+    }
+  } while (cursor);
+
+  console.log(`Re-encrypt done. Kid=${c.currentKid} Stale=${stale} Failed=${failed}`);
+}
+
+// ---- Token refresh sweep (daily) ----
+// Refreshes access tokens that would expire before the next daily run, so an idle account's refresh
+// token keeps rotating instead of silently lapsing. Accounts that can't be refreshed, or whose refresh
+// token is close to its hard expiry, get one account.* callback to each linked key's default callbackUrl.
+const TOKEN_SWEEP_WINDOW_HOURS = 26;
+const REFRESH_EXPIRY_WARN_DAYS = 14;
+
+type AccountAlert = { openId: string; event: "account.needs_reauth" | "account.refresh_expiring"; reason: string; refreshExpiresAt?: number };
+
+async function sweepTokens(env: Env) {
+  const now = Date.now();
+  const alerts: AccountAlert[] = [];
+  let cursor: string | undefined;
+  let checked = 0;
+  let refreshed = 0;
+  let needsReauth = 0;
+
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: "tok:open:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      let tok: any;
+      try {
+        tok = await readTokenRecord(env, k.name);
+      } catch (e: any) {
+        console.log(`Sweep: cannot read ${k.name}: ${String(e?.message ?? e)}`);
+        continue;
+      }
+      if (!tok) continue;
+      checked++;
+      const openId = k.name.slice("tok:open:".length);
+
+      if (!tok.needs_reauth) {
+        const expiresAt = (tok.obtained_at ?? 0) + (tok.expires_in ?? 0) * 1000;
+        if (expiresAt - now < TOKEN_SWEEP_WINDOW_HOURS * 3600 * 1000) {
+          try {
+            tok = await refreshAccessToken(env, k.name, TOKEN_SWEEP_WINDOW_HOURS * 3600 * 1000);
+            refreshed++;
+          } catch (e: any) {
+            console.log(`Sweep: refresh failed for ${openId}: ${String(e?.message ?? e)}`);
+            tok = (await readTokenRecord(env, k.name)) ?? tok;
+          }
+        }
+      }
+
+      if (tok.needs_reauth) {
+        needsReauth++;
+        if (!tok.reauth_alerted_at) {
+          alerts.push({ openId, event: "account.needs_reauth", reason: tok.reauth_reason ?? "refresh token rejected" });
+          await writeTokenRecord(env, k.name, { ...tok, reauth_alerted_at: now });
+        }
+        continue;
+      }
+
+      const refreshLeftMs = tok.refresh_expires_at ? tok.refresh_expires_at - now : Infinity;
+      if (refreshLeftMs < REFRESH_EXPIRY_WARN_DAYS * 86400 * 1000 && tok.refresh_warned_for !== tok.refresh_expires_at) {
+        alerts.push({
+          openId,
+          event: "account.refresh_expiring",
+          reason: `refresh token expires in ${Math.max(0, Math.floor(refreshLeftMs / 86400000))} days`,
+          refreshExpiresAt: tok.refresh_expires_at,
+        });
+        await writeTokenRecord(env, k.name, { ...tok, refresh_warned_for: tok.refresh_expires_at });
+      }
+    }
+  } while (cursor);
+
+  if (alerts.length) await notifyAccountAlerts(env, alerts);
+  console.log(`Token sweep done. Checked=${checked} Refreshed=${refreshed} NeedsReauth=${needsReauth} Alerts=${alerts.length}`);
+}
+
+async function notifyAccountAlerts(env: Env, alerts: AccountAlert[]) {
+  let cursor: string | undefined;
+  do {
+    const page = await env.TOKENS_KV.list({ prefix: "api:", cursor });
+    cursor = page.list_complete ? undefined : page.cursor;
+
+    for (const k of page.keys) {
+      const meta = tryParse((await env.TOKENS_KV.get(k.name)) || "");
+      if (!meta?.callback_url || meta.status !== "active") continue;
+      for (const acct of linkedAccounts(meta)) {
+        const alert = alerts.find((a) => a.openId === acct.open_id);
+        if (!alert) continue;
+        await enqueueCallback(env, k.name.slice("api:".length), meta.callback_url, {
+          event: alert.event,
+          openId: acct.open_id,
+          account: acct.label ?? acct.open_id,
+          reason: alert.reason,
+          ...(alert.refreshExpiresAt ? { refreshExpiresAt: new Date(alert.refreshExpiresAt).toISOString() } : {}),
+        });
+      }
+    }
+  } while (cursor);
+}
+
+function tryParse(s: string) {
+  try { return JSON.parse(s); } catch { return null; }
+}
+async function safeText(r: Response) {
+  try { return await r.text(); } catch { return ""; }
+}
+
+// ---- Rate limiting ----
+// Token bucket in a RateLimiter Durable Object per key (atomic, so no burst leaks). Falls back to the
+// KV fixed window when the RATE_LIMITER binding is absent or unreachable.
+type RateResult = { allowed: boolean; remaining: number; resetAt: number; limit: number; windowSec: number };
+
+async function enforceRate(
+  env: Env,
+  key: string,       // e.g. "rk:newkey:IP"
+  limit: number,     // max requests per window
+  windowSec: number  // window size in seconds (e.g. 3600 = 1h)
+): Promise<RateResult> {
+  if (env.RATE_LIMITER) {
+    try {
+      const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(key));
+      const r = await stub.fetch("https://rate-limiter/take", {
+        method: "POST",
+        body: JSON.stringify({ limit, windowSec }),
+      });
+      const out: any = await r.json();
+      return { ...out, limit, windowSec };
+    } catch (e: any) {
+      console.log(`RateLimiter unavailable for ${key}, using KV: ${String(e?.message ?? e)}`);
+    }
+  }
+  return { ...(await enforceRateKv(env, key, limit, windowSec)), limit, windowSec };
+}
+
+// Per-route limits from vars: RATE_LIMIT_<ROUTE> = "<limit>/<windowSec>", e.g. RATE_LIMIT_WEBHOOK = "60/60"
+function routeRateLimit(env: Env, route: string, fallback: { limit: number; windowSec: number }) {
+  const raw = (env as any)[`RATE_LIMIT_${route}`] as string | undefined;
+  const m = raw?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!m) return fallback;
+  const limit = parseInt(m[1], 10);
+  const windowSec = parseInt(m[2], 10);
+  return limit > 0 && windowSec > 0 ? { limit, windowSec } : fallback;
+}
+
+export class RateLimiter {
+  constructor(private state: DurableObjectState, private env: Env) {}
+
+  async fetch(req: Request) {
+    const { limit, windowSec } = await req.json() as { limit: number; windowSec: number };
+    const now = Date.now();
+    const perMs = limit / (windowSec * 1000);
+
+    // Requests to one object are serialised, so this read-modify-write can't race
+    const bucket = (await this.state.storage.get<{ tokens: number; at: number }>("bucket")) ?? { tokens: limit, at: now };
+    let tokens = Math.min(limit, bucket.tokens + (now - bucket.at) * perMs);
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+    await this.state.storage.put("bucket", { tokens, at: now });
+    // Forget idle callers once their bucket would be full again
+    await this.state.storage.setAlarm(now + windowSec * 1000);
+
+    // Allowed → when the bucket is full again; denied → when the next token arrives
+    const resetMs = allowed ? now + (limit - tokens) / perMs : now + (1 - tokens) / perMs;
+    return Response.json({ allowed, remaining: Math.floor(tokens), resetAt: Math.ceil(resetMs / 1000) });
+  }
+
+  async alarm() {
+    await this.state.storage.deleteAll();
+  }
+}
+
+// KV fixed window (fallback)
+async function enforceRateKv(
+  env: Env,
+  key: string,
+  limit: number,
+  windowSec: number
 ): Promise<{ allowed: boolean; remaining: number; resetAt: number }> {
   const now = Math.floor(Date.now() / 1000);
   const windowKey = `${key}:${Math.floor(now / windowSec)}`; // e.g. rk:newkey:1.2.3.4:451234
@@ -612,7 +4126,8 @@ function getClientIp(req: Request) {
   return req.headers.get("CF-Connecting-IP") || "0.0.0.0";
 }
 
-function ratelimitedJson(limitInfo: { remaining: number; resetAt: number }) {
+// RateLimit-* per draft-ietf-httpapi-ratelimit-headers; x-rate-* kept for existing clients
+function ratelimitedJson(limitInfo: { remaining: number; resetAt: number; limit?: number; windowSec?: number }) {
   const retryAfter = Math.max(0, limitInfo.resetAt - Math.floor(Date.now() / 1000));
   return new Response(JSON.stringify({
     ok: false,
@@ -623,6 +4138,12 @@ function ratelimitedJson(limitInfo: { remaining: number; resetAt: number }) {
     headers: {
       "content-type": "application/json",
       "retry-after": String(retryAfter),
+      ...(limitInfo.limit ? {
+        "ratelimit-limit": String(limitInfo.limit),
+        "ratelimit-policy": `${limitInfo.limit};w=${limitInfo.windowSec}`,
+      } : {}),
+      "ratelimit-remaining": String(limitInfo.remaining),
+      "ratelimit-reset": String(retryAfter),
       "x-rate-remaining": String(limitInfo.remaining),
       "x-rate-reset": String(limitInfo.resetAt)
     }
@@ -0,0 +1,273 @@
+// src/mediaProbe.ts
+//
+// Reads MP4/MOV metadata (duration, dimensions, frame rate, codecs, size) with ranged reads, so a bad
+// video is rejected before TikTok's init call instead of failing minutes later. Only the top-level box
+// headers and the moov box are fetched, never the media data.
+
+type EnvBits = {
+  MEDIA_BUCKET?: R2Bucket;    // preferred when bound; otherwise the presigned URL is read with Range
+};
+
+export type VideoMeta = {
+  container: "mp4" | "mov";
+  brand: string;
+  sizeBytes: number;
+  durationSec: number;
+  width?: number;             // display size, after the track's rotation
+  height?: number;
+  rotation?: number;
+  frameRate?: number;
+  videoCodec?: string;        // "h264", "h265", "vp9"… or the raw sample entry fourcc
+  audioCodec?: string;
+};
+
+export type MediaIssue = { code: string; message: string };
+
+// https://developers.tiktok.com/doc/content-posting-api-media-transfer-guide
+export const TIKTOK_VIDEO_LIMITS = {
+  maxBytes: 4 * 1024 * 1024 * 1024,
+  maxDurationSec: 600,
+  minDurationSec: 3,
+  minSide: 360,
+  maxSide: 4096,
+  minFrameRate: 23,
+  maxFrameRate: 60,
+  codecs: ["h264", "h265", "vp8", "vp9"],
+};
+
+const MAX_TOP_LEVEL_BOXES = 64;
+const MAX_MOOV_BYTES = 32 * 1024 * 1024;
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: "h264", avc3: "h264",
+  hvc1: "h265", hev1: "h265",
+  vp08: "vp8", vp09: "vp9",
+  av01: "av1",
+  mp4a: "aac", "ac-3": "ac3", "ec-3": "eac3", Opus: "opus",
+};
+
+type Reader = {
+  read(offset: number, length: number): Promise<Uint8Array>;
+  size: number;
+};
+
+export function makeMediaProbe(env: EnvBits) {
+  const _dec = new TextDecoder();
+
+  async function bucketReader(key: string): Promise<Reader | undefined> {
+    const head = await env.MEDIA_BUCKET!.head(key);
+    if (!head) return undefined;
+    return {
+      size: head.size,
+      async read(offset, length) {
+        const obj = await env.MEDIA_BUCKET!.get(key, { range: { offset, length } });
+        if (!obj) throw new Error(`object disappeared while reading ${key}`);
+        return new Uint8Array(await obj.arrayBuffer());
+      },
+    };
+  }
+
+  async function urlReader(url: string): Promise<Reader | undefined> {
+    const fetchRange = (offset: number, length: number) =>
+      fetch(url, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } });
+
+    const first = await fetchRange(0, 16);
+    if (first.status === 404) return undefined;
+    if (first.status !== 206) {
+      await first.body?.cancel();
+      throw new Error(`media host answered ${first.status} to a range request`);
+    }
+    const total = Number(first.headers.get("content-range")?.split("/")[1]);
+    if (!Number.isFinite(total)) throw new Error("media host sent no Content-Range total");
+    await first.body?.cancel();
+
+    return {
+      size: total,
+      async read(offset, length) {
+        const r = await fetchRange(offset, length);
+        if (r.status !== 206) {
+          await r.body?.cancel();
+          throw new Error(`media host answered ${r.status} to a range request`);
+        }
+        return new Uint8Array(await r.arrayBuffer());
+      },
+    };
+  }
+
+  function fourcc(u8: Uint8Array, at: number) {
+    return _dec.decode(u8.subarray(at, at + 4));
+  }
+
+  // Child boxes of a container payload: [type, start of payload, end]
+  function* boxes(u8: Uint8Array, start = 0, end = u8.length): Generator<[string, number, number]> {
+    const dv = new DataView(u8.buffer, u8.byteOffset, u8.byteLength);
+    let at = start;
+    while (at + 8 <= end) {
+      let size = dv.getUint32(at);
+      const type = fourcc(u8, at + 4);
+      let header = 8;
+      if (size === 1) {
+        size = Number(dv.getBigUint64(at + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - at;
+      }
+      if (size < header || at + size > end) return;
+      yield [type, at + header, at + size];
+      at += size;
+    }
+  }
+
+  function child(u8: Uint8Array, start: number, end: number, type: string) {
+    for (const b of boxes(u8, start, end)) if (b[0] === type) return b;
+    return undefined;
+  }
+
+  // Walk top-level box headers until moov; returns the moov payload and the ftyp brand
+  async function readMoov(reader: Reader) {
+    let at = 0;
+    let brand = "";
+    for (let i = 0; i < MAX_TOP_LEVEL_BOXES && at + 8 <= reader.size; i++) {
+      const head = await reader.read(at, Math.min(16, reader.size - at));
+      const dv = new DataView(head.buffer, head.byteOffset, head.byteLength);
+      let size = dv.getUint32(0);
+      const type = fourcc(head, 4);
+      if (size === 1) size = Number(dv.getBigUint64(8));
+      else if (size === 0) size = reader.size - at;
+      if (size < 8) throw new Error(`corrupt box header at byte ${at}`);
+      if (i === 0 && type !== "ftyp") throw new Error("not an MP4/MOV file (no ftyp box)");
+
+      if (type === "ftyp") brand = fourcc(await reader.read(at + 8, 4), 0);
+      if (type === "moov") {
+        if (size > MAX_MOOV_BYTES) throw new Error(`moov box is ${size} bytes, larger than we read`);
+        return { brand, moov: await reader.read(at, size) };
+      }
+      at += size;
+    }
+    throw new Error("no moov box found");
+  }
+
+  function parseMoov(moov: Uint8Array, brand: string, sizeBytes: number): VideoMeta {
+    const dv = new DataView(moov.buffer, moov.byteOffset, moov.byteLength);
+    const [, mStart, mEnd] = [...boxes(moov)][0];
+
+    const meta: VideoMeta = {
+      container: brand.trim() === "qt" ? "mov" : "mp4",
+      brand: brand.trim(),
+      sizeBytes,
+      durationSec: 0,
+    };
+
+    const mvhd = child(moov, mStart, mEnd, "mvhd");
+    if (mvhd) {
+      const v1 = moov[mvhd[1]] === 1;
+      const timescale = dv.getUint32(mvhd[1] + (v1 ? 20 : 12));
+      const duration = v1 ? Number(dv.getBigUint64(mvhd[1] + 24)) : dv.getUint32(mvhd[1] + 16);
+      if (timescale) meta.durationSec = duration / timescale;
+    }
+
+    for (const [type, tStart, tEnd] of boxes(moov, mStart, mEnd)) {
+      if (type !== "trak") continue;
+      const mdia = child(moov, tStart, tEnd, "mdia");
+      const hdlr = mdia && child(moov, mdia[1], mdia[2], "hdlr");
+      const handler = hdlr ? fourcc(moov, hdlr[1] + 8) : "";
+      const stbl = (() => {
+        const minf = mdia && child(moov, mdia[1], mdia[2], "minf");
+        return minf && child(moov, minf[1], minf[2], "stbl");
+      })();
+      const stsd = stbl && child(moov, stbl[1], stbl[2], "stsd");
+      const format = stsd ? fourcc(moov, stsd[1] + 12) : undefined;
+
+      if (handler === "vide" && !meta.videoCodec) {
+        meta.videoCodec = format ? CODEC_NAMES[format] ?? format : undefined;
+
+        const tkhd = child(moov, tStart, tEnd, "tkhd");
+        if (tkhd) {
+          const v1 = moov[tkhd[1]] === 1;
+          const matrix = tkhd[1] + (v1 ? 52 : 40);
+          const a = dv.getInt32(matrix);
+          const b = dv.getInt32(matrix + 4);
+          meta.rotation = ((Math.round(Math.atan2(b, a) * 180 / Math.PI) % 360) + 360) % 360;
+          const w = dv.getUint32(matrix + 36) / 65536;
+          const h = dv.getUint32(matrix + 40) / 65536;
+          const swap = meta.rotation === 90 || meta.rotation === 270;
+          meta.width = Math.round(swap ? h : w);
+          meta.height = Math.round(swap ? w : h);
+        }
+
+        const mdhd = child(moov, mdia![1], mdia![2], "mdhd");
+        const stts = stbl && child(moov, stbl[1], stbl[2], "stts");
+        if (mdhd && stts) {
+          const v1 = moov[mdhd[1]] === 1;
+          const timescale = dv.getUint32(mdhd[1] + (v1 ? 20 : 12));
+          const duration = v1 ? Number(dv.getBigUint64(mdhd[1] + 24)) : dv.getUint32(mdhd[1] + 16);
+          let samples = 0;
+          const entries = dv.getUint32(stts[1] + 4);
+          for (let i = 0; i < entries && stts[1] + 16 + i * 8 <= stts[2]; i++) samples += dv.getUint32(stts[1] + 8 + i * 8);
+          if (timescale && duration) meta.frameRate = Math.round((samples * timescale / duration) * 100) / 100;
+        }
+      }
+      if (handler === "soun" && !meta.audioCodec && format) {
+        meta.audioCodec = CODEC_NAMES[format] ?? format;
+      }
+    }
+    return meta;
+  }
+
+  // Never throws: I/O and parse failures come back as { error }
+  async function probeVideo(src: { key: string; url?: string }): Promise<{ meta: VideoMeta } | { error: MediaIssue }> {
+    let reader: Reader | undefined;
+    try {
+      reader = env.MEDIA_BUCKET ? await bucketReader(src.key) : src.url ? await urlReader(src.url) : undefined;
+    } catch (e: any) {
+      return { error: { code: "media_probe_failed", message: String(e?.message ?? e) } };
+    }
+    if (!reader) return { error: { code: "object_not_found", message: `No R2 object at ${src.key}` } };
+
+    try {
+      const { brand, moov } = await readMoov(reader);
+      return { meta: parseMoov(moov, brand, reader.size) };
+    } catch (e: any) {
+      return { error: { code: "media_unreadable", message: String(e?.message ?? e) } };
+    }
+  }
+
+  return { probeVideo };
+}
+
+// Every rule TikTok would fail the post on; maxDurationSec is the creator's own limit from creator_info
+export function checkVideoLimits(meta: VideoMeta, opts: { maxDurationSec?: number } = {}): MediaIssue[] {
+  const L = TIKTOK_VIDEO_LIMITS;
+  const issues: MediaIssue[] = [];
+  const maxDuration = Math.min(L.maxDurationSec, opts.maxDurationSec || L.maxDurationSec);
+
+  if (meta.sizeBytes > L.maxBytes) {
+    issues.push({ code: "file_too_large", message: `File is ${meta.sizeBytes} bytes; TikTok accepts up to 4GB` });
+  }
+  if (meta.durationSec > maxDuration) {
+    issues.push({ code: "duration_too_long", message: `Video is ${meta.durationSec.toFixed(1)}s; this account allows up to ${maxDuration}s` });
+  }
+  if (meta.durationSec < L.minDurationSec) {
+    issues.push({ code: "duration_too_short", message: `Video is ${meta.durationSec.toFixed(1)}s; TikTok needs at least ${L.minDurationSec}s` });
+  }
+  if (meta.width === undefined || meta.height === undefined || !meta.videoCodec) {
+    issues.push({ code: "no_video_track", message: "No video track found" });
+    return issues;
+  }
+  if (Math.min(meta.width, meta.height) < L.minSide || Math.max(meta.width, meta.height) > L.maxSide) {
+    issues.push({
+      code: "resolution_out_of_range",
+      message: `Video is ${meta.width}x${meta.height}; each side must be ${L.minSide}–${L.maxSide}px`,
+    });
+  }
+  if (meta.frameRate !== undefined && (meta.frameRate < L.minFrameRate || meta.frameRate > L.maxFrameRate)) {
+    issues.push({
+      code: "frame_rate_out_of_range",
+      message: `Video is ${meta.frameRate}fps; TikTok accepts ${L.minFrameRate}–${L.maxFrameRate}fps`,
+    });
+  }
+  if (!L.codecs.includes(meta.videoCodec)) {
+    issues.push({ code: "unsupported_codec", message: `Video codec ${meta.videoCodec} is not supported; use H.264 or H.265` });
+  }
+  return issues;
+}
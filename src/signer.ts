@@ -1,18 +1,57 @@
 // src/signer.ts
 //
-// Presigns GET URLs for a bucket-bound custom R2 domain using SigV4.
-// Works in Cloudflare Workers (WebCrypto). No AWS SDK needed.
+// SigV4 for R2: presigned GET/PUT/HEAD URLs (custom domain or the account's S3 endpoint), signed
+// request headers, and object key resolution. Works in Cloudflare Workers (WebCrypto). No AWS SDK needed.
 
 type EnvBits = {
   R2_ACCESS_KEY_ID: string;
   R2_SECRET_ACCESS_KEY: string;
   R2_BUCKET: string;          // bucket name (only used to strip legacy /bucket/ from URLs)
   CUSTOM_MEDIA_HOST: string;  // e.g. "r2media.example.com" OR "https://r2media.example.com"
+  R2_ACCOUNT_ID?: string;     // enables endpoint: "account" (https://<id>.r2.cloudflarestorage.com/<bucket>/…)
+  KEY_TEMPLATE?: string;      // how an id becomes a key: {prefix}, {id}, {ext}; default "{prefix}{id}.{ext}"
+  KEY_PREFIXES?: string;      // comma-separated; when set every key must start with one of them
 };
 
+const DEFAULT_KEY_TEMPLATE = "{prefix}{id}.{ext}";
+const VIDEO_EXTENSIONS = ["mp4", "mov", "webm"];   // probe order when the id has no extension
+const MAX_KEY_BYTES = 1024;                          // R2/S3 object key limit
+const MAX_PRESIGN_EXPIRES = 604800;                  // SigV4 protocol limit (7 days)
+
+export type PresignOptions = {
+  key: string;
+  method?: "GET" | "PUT" | "HEAD";
+  expires?: number;                    // seconds, default 7 days
+  endpoint?: "custom" | "account";     // CUSTOM_MEDIA_HOST (default) or the account S3 endpoint
+  headers?: Record<string, string>;    // signed; the client must send exactly these values
+  query?: Record<string, string>;      // extra signed query params
+  responseContentType?: string;        // → response-content-type (GET only)
+  responseContentDisposition?: string; // → response-content-disposition (GET only)
+  region?: string;                     // default "auto" (R2)
+  service?: string;                    // default "s3"
+  now?: Date;
+};
+
+export type SignRequestOptions = {
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  payloadHash?: string;                // hex SHA-256 of the body, or "UNSIGNED-PAYLOAD" (default)
+  region?: string;
+  service?: string;
+  now?: Date;
+};
+
+// Derived signing keys only change with the date (and region/service), so one HMAC chain per day is
+// enough for every request in this isolate
+const SIGNING_KEYS = new Map<string, Promise<Uint8Array>>();
+
 export function makeSigner(env: EnvBits) {
   // Normalize to a full origin like "https://r2media.example.com"
   const origin = normalizeOrigin(env.CUSTOM_MEDIA_HOST);
+  const keyTemplate = env.KEY_TEMPLATE || DEFAULT_KEY_TEMPLATE;
+  if (!keyTemplate.includes("{id}")) throw new Error("KEY_TEMPLATE must contain {id}");
+  const keyPrefixes = (env.KEY_PREFIXES ?? "").split(",").map((p) => p.trim().replace(/^\/+/, "")).filter(Boolean);
 
   function normalizeOrigin(hostOrUrl: string): string {
     const hasScheme = /^(https?:)?\/\//i.test(hostOrUrl);
@@ -21,9 +60,14 @@ export function makeSigner(env: EnvBits) {
     return `${u.protocol}//${u.host}`;
   }
 
+  // RFC 3986 encoding as SigV4 wants it (encodeURIComponent leaves !'()* alone)
+  function uriEncode(s: string) {
+    return encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  }
+
   // Encode each path segment but preserve slashes
   function encodePathPreservingSlashes(p: string) {
-    return p.split("/").map(encodeURIComponent).join("/");
+    return p.split("/").map(uriEncode).join("/");
   }
 
   // AWS date formats
@@ -73,97 +117,239 @@ export function makeSigner(env: EnvBits) {
     return [...u8].map((b) => b.toString(16).padStart(2, "0")).join("");
   }
 
-  // ---------- core presign ----------
-  async function presignGet({ key, expires = 60 * 60 * 24 * 7 }: { key: string; expires?: number }) {
-    if (!key) throw new Error("key is required");
-    if (expires > 604800) throw new Error("expires must be <= 604800 (7 days)");
-
-    const { date, datetime } = toAmzDate(new Date());
-    const service = "s3";
-    const region = "auto"; // Cloudflare R2 region magic
-    const credentialScope = `${date}/${region}/${service}/aws4_request`;
-    const credential = `${env.R2_ACCESS_KEY_ID}/${credentialScope}`;
-
-    // Only "host" is signed
-    const host = new URL(origin).host;
-    const signedHeaders = "host";
-
-    // Canonical request
-    const method = "GET";
-    const canonicalUri = "/" + encodePathPreservingSlashes(key);
+  // ---------- core signing ----------
+  function signingKey(date: string, region: string, service: string) {
+    const id = `${env.R2_ACCESS_KEY_ID}/${date}/${region}/${service}`;
+    let k = SIGNING_KEYS.get(id);
+    if (!k) {
+      // Yesterday's keys are useless now
+      for (const old of SIGNING_KEYS.keys()) if (!old.includes(`/${date}/`)) SIGNING_KEYS.delete(old);
+      k = (async () => {
+        const kDate = await hmac("AWS4" + env.R2_SECRET_ACCESS_KEY, date);
+        const kRegion = await hmac(kDate, region);
+        const kService = await hmac(kRegion, service);
+        return hmac(kService, "aws4_request");
+      })();
+      SIGNING_KEYS.set(id, k);
+    }
+    return k;
+  }
 
-    // IMPORTANT: Values here are *raw*. We URL-encode when building the canonical query.
-    const baseQuery: Record<string, string> = {
-      "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
-      "X-Amz-Credential": credential,
-      "X-Amz-Date": datetime,
-      "X-Amz-Expires": String(expires),
-      "X-Amz-SignedHeaders": signedHeaders,
-      // Optional helper (harmless extra query param)
-      "x-id": "GetObject",
+  // Header names lowercased, values trimmed with inner whitespace folded, sorted by name
+  function canonicalizeHeaders(headers: Record<string, string>) {
+    const entries = Object.entries(headers)
+      .map(([k, v]) => [k.toLowerCase().trim(), String(v).trim().replace(/\s+/g, " ")] as [string, string])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return {
+      canonicalHeaders: entries.map(([k, v]) => `${k}:${v}\n`).join(""),
+      signedHeaders: entries.map(([k]) => k).join(";"),
     };
+  }
 
-    // Canonical query string: keys alpha-sorted, each k/v URL-encoded.
-    const sortedKeys = Object.keys(baseQuery).sort();
-    const canonicalQuery = sortedKeys
-      .map((k) => `${encodeURIComponent(k)}=${encodeURIComponent(baseQuery[k])}`)
+  // Canonical query string: keys sorted, each k/v RFC 3986-encoded
+  function canonicalizeQuery(params: [string, string][]) {
+    return params
+      .map(([k, v]) => [uriEncode(k), uriEncode(v)])
+      .sort(([ak, av], [bk, bv]) => (ak < bk ? -1 : ak > bk ? 1 : av < bv ? -1 : av > bv ? 1 : 0))
+      .map(([k, v]) => `${k}=${v}`)
       .join("&");
+  }
 
-    const canonicalHeaders = `host:${host}\n`;
-    const payloadHash = "UNSIGNED-PAYLOAD";
-
+  async function signature(
+    parts: { method: string; canonicalUri: string; canonicalQuery: string; canonicalHeaders: string; signedHeaders: string; payloadHash: string },
+    datetime: string,
+    scope: { date: string; region: string; service: string }
+  ) {
     const canonicalRequest = [
-      method,
-      canonicalUri,
-      canonicalQuery,
-      canonicalHeaders,
-      signedHeaders,
-      payloadHash,
+      parts.method,
+      parts.canonicalUri,
+      parts.canonicalQuery,
+      parts.canonicalHeaders,
+      parts.signedHeaders,
+      parts.payloadHash,
     ].join("\n");
 
     const stringToSign = [
       "AWS4-HMAC-SHA256",
       datetime,
-      credentialScope,
+      `${scope.date}/${scope.region}/${scope.service}/aws4_request`,
       await sha256Hex(canonicalRequest),
     ].join("\n");
 
-    // Derive signing key
-    const kDate = await hmac("AWS4" + env.R2_SECRET_ACCESS_KEY, date);
-    const kRegion = await hmac(kDate, region);
-    const kService = await hmac(kRegion, service);
-    const kSigning = await hmac(kService, "aws4_request");
-    const signature = hex(await hmac(kSigning, stringToSign));
+    return hex(await hmac(await signingKey(scope.date, scope.region, scope.service), stringToSign));
+  }
+
+  function endpointFor(endpoint: "custom" | "account", key: string) {
+    if (endpoint === "custom") return { base: origin, path: key };
+    if (!env.R2_ACCOUNT_ID) throw new Error("R2_ACCOUNT_ID is required for endpoint 'account'");
+    return { base: `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com`, path: `${env.R2_BUCKET}/${key}` };
+  }
+
+  // ---------- presigned URLs ----------
+  async function presign(opts: PresignOptions) {
+    const { key, method = "GET", expires = MAX_PRESIGN_EXPIRES, endpoint = "custom" } = opts;
+    if (!key) throw new Error("key is required");
+    if (!Number.isInteger(expires) || expires < 1 || expires > MAX_PRESIGN_EXPIRES) {
+      throw new Error(`expires must be 1–${MAX_PRESIGN_EXPIRES} seconds (SigV4 limit)`);
+    }
+    if (method !== "GET" && (opts.responseContentType || opts.responseContentDisposition)) {
+      throw new Error("response overrides only apply to GET");
+    }
+
+    const { date, datetime } = toAmzDate(opts.now ?? new Date());
+    const region = opts.region ?? "auto"; // Cloudflare R2 region magic
+    const service = opts.service ?? "s3";
+    const { base, path } = endpointFor(endpoint, key);
+    const canonicalUri = "/" + encodePathPreservingSlashes(path);
+
+    // "host" is always signed; extra headers must then be sent verbatim by whoever uses the URL
+    const headers: Record<string, string> = { host: new URL(base).host, ...(opts.headers ?? {}) };
+    const { canonicalHeaders, signedHeaders } = canonicalizeHeaders(headers);
+    const contentSha = Object.entries(headers).find(([k]) => k.toLowerCase() === "x-amz-content-sha256")?.[1];
+
+    // IMPORTANT: Values here are *raw*. We URL-encode when building the canonical query.
+    const params: [string, string][] = [
+      ["X-Amz-Algorithm", "AWS4-HMAC-SHA256"],
+      ["X-Amz-Credential", `${env.R2_ACCESS_KEY_ID}/${date}/${region}/${service}/aws4_request`],
+      ["X-Amz-Date", datetime],
+      ["X-Amz-Expires", String(expires)],
+      ["X-Amz-SignedHeaders", signedHeaders],
+      ...Object.entries(opts.query ?? {}),
+    ];
+    if (opts.responseContentType) params.push(["response-content-type", opts.responseContentType]);
+    if (opts.responseContentDisposition) params.push(["response-content-disposition", opts.responseContentDisposition]);
+    const canonicalQuery = canonicalizeQuery(params);
+
+    const sig = await signature(
+      { method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash: contentSha ?? "UNSIGNED-PAYLOAD" },
+      datetime,
+      { date, region, service }
+    );
+    return `${base}${canonicalUri}?${canonicalQuery}&X-Amz-Signature=${sig}`;
+  }
+
+  function presignGet({ key, expires }: { key: string; expires?: number }) {
+    return presign({ key, expires });
+  }
+
+  // ---------- signed requests (Authorization header) ----------
+  // Returns the headers to send, including x-amz-date and authorization. Every header passed in is signed.
+  async function signRequest(opts: SignRequestOptions) {
+    const u = new URL(opts.url);
+    const { date, datetime } = toAmzDate(opts.now ?? new Date());
+    const region = opts.region ?? "auto";
+    const service = opts.service ?? "s3";
+    const payloadHash = opts.payloadHash ?? "UNSIGNED-PAYLOAD";
+
+    const headers: Record<string, string> = { ...(opts.headers ?? {}), host: u.host, "x-amz-date": datetime };
+    if (service === "s3") headers["x-amz-content-sha256"] = payloadHash;
+    const { canonicalHeaders, signedHeaders } = canonicalizeHeaders(headers);
+
+    const params: [string, string][] = [];
+    u.searchParams.forEach((v, k) => params.push([k, v]));
+    const sig = await signature(
+      {
+        method: opts.method.toUpperCase(),
+        // URL only percent-encodes some characters (it leaves + ! ' ( ) * and others alone), so decode the
+        // path and encode it the way presign does; S3 builds its canonical request from the decoded key
+        canonicalUri: "/" + encodePathPreservingSlashes(decodeURIComponent(u.pathname.slice(1))),
+        canonicalQuery: canonicalizeQuery(params),
+        canonicalHeaders,
+        signedHeaders,
+        payloadHash,
+      },
+      datetime,
+      { date, region, service }
+    );
+
+    delete headers.host;  // fetch sets it
+    headers.authorization =
+      `AWS4-HMAC-SHA256 Credential=${env.R2_ACCESS_KEY_ID}/${date}/${region}/${service}/aws4_request, ` +
+      `SignedHeaders=${signedHeaders}, Signature=${sig}`;
+    return headers;
+  }
+
+  type KeyInput = { id?: string; url?: string; key?: string };
+  type KeyOptions = { prefix?: string };
+
+  // An explicit key is used as-is, a URL is reduced to its key, and an id goes through KEY_TEMPLATE.
+  // The id's own extension (abc.mov) wins over the default; otherwise {ext} is "mp4".
+  function resolveKey(input: KeyInput, opts: KeyOptions = {}) {
+    return candidateKeys(input, opts)[0];
+  }
 
-    // Final URL
-    return `${origin}${canonicalUri}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+  // Like resolveKey, but when the id has no extension tries .mp4, .mov, .webm in turn and returns the
+  // first one `exists` confirms (or the .mp4 key if none do, so the caller reports it as missing)
+  async function resolveKeyProbing(input: KeyInput, exists: (key: string) => Promise<boolean>, opts: KeyOptions = {}) {
+    const keys = candidateKeys(input, opts);
+    if (keys.length === 1) return keys[0];
+    for (const key of keys) if (await exists(key)) return key;
+    return keys[0];
   }
 
-  // Accepts either an ID (we append ".mp4") or a raw R2 URL (legacy or custom host)
-  async function resolveAndSign(input: { id?: string; url?: string }) {
-    let key: string | undefined;
+  function candidateKeys(input: KeyInput, opts: KeyOptions): string[] {
+    if (input.key) return [checkKey(input.key)];
+    if (input.url) return [checkKey(extractKeyFromUrl(input.url))];
+    if (!input.id) throw new Error("Provide 'id', 'key' or 'url'");
 
-    if (input.id) {
-      key = `${input.id}.mp4`; // your convention
-    } else if (input.url) {
-      key = extractKeyFromUrl(input.url);
+    const m = input.id.match(/^(.*)\.([a-z0-9]+)$/i);
+    const ownExt = m && VIDEO_EXTENSIONS.includes(m[2].toLowerCase()) ? m[2] : undefined;
+    const id = ownExt ? m![1] : input.id;
+    const exts = ownExt || !keyTemplate.includes("{ext}") ? [ownExt ?? "mp4"] : VIDEO_EXTENSIONS;
+    return exts.map((ext) => checkKey(
+      keyTemplate.replace(/\{prefix\}/g, opts.prefix ?? "").replace(/\{id\}/g, id).replace(/\{ext\}/g, ext)
+    ));
+  }
+
+  // Rejects keys that could escape their prefix or that KEY_PREFIXES doesn't cover
+  function checkKey(key: string) {
+    if (!key) throw new Error("Object key is empty");
+    if (key.startsWith("/") || /[\\\u0000]/.test(key)) throw new Error(`Invalid object key: ${key}`);
+    if (key.split("/").some((seg) => seg === ".." || seg === ".")) throw new Error(`Object key must not contain '..' or '.' segments: ${key}`);
+    if (_enc.encode(key).length > MAX_KEY_BYTES) throw new Error(`Object key is longer than ${MAX_KEY_BYTES} bytes`);
+    if (keyPrefixes.length && !keyPrefixes.some((p) => key.startsWith(p))) {
+      throw new Error(`Object key ${key} is outside the allowed prefixes (${keyPrefixes.join(", ")})`);
     }
+    return key;
+  }
 
-    if (!key) throw new Error("Provide either 'id' or 'url'");
-    return presignGet({ key });
+  async function resolveAndSign(input: KeyInput) {
+    return presignGet({ key: resolveKey(input) });
   }
 
-  // Convert any R2 object URL → just the object key (strip a leading "<bucket>/")
+  // Convert an R2 object URL → just the object key. Recognised forms:
+  //   https://<CUSTOM_MEDIA_HOST>/<key>                         (legacy: /<bucket>/<key>)
+  //   https://<bucket>.<account>.r2.cloudflarestorage.com/<key>  (virtual-hosted S3)
+  //   https://<account>.r2.cloudflarestorage.com/<bucket>/<key>  (path-style S3)
+  //   https://pub-<hash>.r2.dev/<key>                           (public dev URL)
   function extractKeyFromUrl(rawUrl: string) {
-    const u = new URL(rawUrl);
+    let u: URL;
+    try {
+      u = new URL(rawUrl);
+    } catch {
+      throw new Error(`Invalid URL: ${rawUrl}`);
+    }
+    const host = u.host.toLowerCase();
     let path = decodeURIComponent(u.pathname.replace(/^\/+/, "")); // rm leading slash(es)
-
-    // If the pasted URL had "/<bucket>/key", drop the bucket segment
     const bucketPrefix = env.R2_BUCKET + "/";
-    if (path.startsWith(bucketPrefix)) path = path.slice(bucketPrefix.length);
 
+    if (host === new URL(origin).host) {
+      // If the pasted URL had "/<bucket>/key", drop the bucket segment
+      if (path.startsWith(bucketPrefix)) path = path.slice(bucketPrefix.length);
+    } else if (host.endsWith(".r2.cloudflarestorage.com")) {
+      const labels = host.split(".");
+      if (labels.length === 5) {
+        if (labels[0] !== env.R2_BUCKET) throw new Error(`URL is for bucket ${labels[0]}, not ${env.R2_BUCKET}`);
+      } else if (path.startsWith(bucketPrefix)) {
+        path = path.slice(bucketPrefix.length);
+      } else {
+        throw new Error(`URL is not for bucket ${env.R2_BUCKET}`);
+      }
+    } else if (!host.endsWith(".r2.dev")) {
+      throw new Error(`Unrecognised media host ${host}; use ${new URL(origin).host}, an r2.cloudflarestorage.com or an r2.dev URL`);
+    }
     return path;
   }
 
-  return { resolveAndSign, extractKeyFromUrl };
+  return { resolveAndSign, resolveKey, resolveKeyProbing, checkKey, presign, presignGet, signRequest, extractKeyFromUrl };
 }
\ No newline at end of file
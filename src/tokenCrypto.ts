@@ -0,0 +1,116 @@
+// src/tokenCrypto.ts
+//
+// Envelope encryption for records stored in KV (AES-256-GCM, WebCrypto).
+// Each record gets its own random data key; that data key is wrapped with a
+// master key from TOKEN_ENC_KEYS. Rotating the master key only needs the data
+// keys re-wrapped, and the master key id is stored with every record.
+
+type EnvBits = {
+  // "<kid>:<base64 32-byte key>[,<kid>:<base64 key>…]" — the first entry encrypts, all of them decrypt
+  TOKEN_ENC_KEYS?: string;
+};
+
+type Sealed = {
+  enc: "env1";
+  kid: string;     // master key id that wrapped the data key
+  dek: string;     // wrapped data key (base64)
+  dek_iv: string;
+  iv: string;
+  ct: string;      // record ciphertext (base64), bound to the KV key via AAD
+};
+
+export function makeTokenCrypto(env: EnvBits) {
+  const masters = parseKeys(env.TOKEN_ENC_KEYS);
+  const currentKid = masters[0]?.kid;
+  const imported = new Map<string, Promise<CryptoKey>>();
+  const _enc = new TextEncoder();
+  const _dec = new TextDecoder();
+
+  function parseKeys(spec?: string) {
+    if (!spec) return [];
+    return spec.split(",").map((part) => part.trim()).filter(Boolean).map((part) => {
+      const i = part.indexOf(":");
+      if (i <= 0) throw new Error("TOKEN_ENC_KEYS entries must look like <kid>:<base64 key>");
+      const kid = part.slice(0, i);
+      const raw = fromB64(part.slice(i + 1));
+      if (raw.length !== 32) throw new Error(`TOKEN_ENC_KEYS key ${kid} must be 32 bytes`);
+      return { kid, raw };
+    });
+  }
+
+  function toB64(u8: Uint8Array) {
+    let s = "";
+    for (const b of u8) s += String.fromCharCode(b);
+    return btoa(s);
+  }
+
+  function fromB64(s: string) {
+    return Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+  }
+
+  function aesKey(raw: BufferSource) {
+    return crypto.subtle.importKey("raw", raw, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+  }
+
+  function masterKey(kid: string) {
+    const m = masters.find((k) => k.kid === kid);
+    if (!m) throw new Error(`Unknown token encryption key id "${kid}"`);
+    if (!imported.has(kid)) imported.set(kid, aesKey(m.raw));
+    return imported.get(kid)!;
+  }
+
+  function randomIv() {
+    return crypto.getRandomValues(new Uint8Array(12));
+  }
+
+  // context (the KV key) is authenticated but not stored, so a record can't be copied to another key
+  async function seal(value: unknown, context: string): Promise<string> {
+    if (!currentKid) return JSON.stringify(value);
+
+    const dekRaw = crypto.getRandomValues(new Uint8Array(32));
+    const iv = randomIv();
+    const ct = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: _enc.encode(context) },
+      await aesKey(dekRaw),
+      _enc.encode(JSON.stringify(value))
+    );
+
+    const dekIv = randomIv();
+    const wrapped = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: dekIv, additionalData: _enc.encode(currentKid) },
+      await masterKey(currentKid),
+      dekRaw
+    );
+
+    const sealed: Sealed = {
+      enc: "env1",
+      kid: currentKid,
+      dek: toB64(new Uint8Array(wrapped)),
+      dek_iv: toB64(dekIv),
+      iv: toB64(iv),
+      ct: toB64(new Uint8Array(ct)),
+    };
+    return JSON.stringify(sealed);
+  }
+
+  // stale = plaintext legacy record, or sealed under a master key that is no longer current
+  async function open(raw: string, context: string): Promise<{ value: any; stale: boolean }> {
+    const parsed = JSON.parse(raw);
+    if (parsed?.enc !== "env1") return { value: parsed, stale: !!currentKid };
+
+    const s = parsed as Sealed;
+    const dekRaw = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromB64(s.dek_iv), additionalData: _enc.encode(s.kid) },
+      await masterKey(s.kid),
+      fromB64(s.dek)
+    );
+    const pt = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromB64(s.iv), additionalData: _enc.encode(context) },
+      await aesKey(new Uint8Array(dekRaw)),
+      fromB64(s.ct)
+    );
+    return { value: JSON.parse(_dec.decode(pt)), stale: s.kid !== currentKid };
+  }
+
+  return { seal, open, enabled: !!currentKid, currentKid };
+}
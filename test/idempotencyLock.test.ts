@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { IdempotencyLock, type Env } from "../src/index";
+
+// Storage for a single object; the runtime serialises its requests, so these tests call it one at a time
+function lockInstance() {
+  const storage = new Map<string, unknown>();
+  const state = {
+    storage: {
+      get: async (k: string) => storage.get(k),
+      put: async (k: string, v: unknown) => void storage.set(k, v),
+      deleteAll: async () => storage.clear(),
+      setAlarm: async () => {},
+    },
+  };
+  const lock = new IdempotencyLock(state as any, {} as Env);
+  const call = async (op: object) =>
+    (await lock.fetch(new Request("https://idempotency-lock/", { method: "POST", body: JSON.stringify(op) }))).json() as any;
+  return { lock, storage, call };
+}
+
+describe("IdempotencyLock", () => {
+  it("lets only one request hold a key", async () => {
+    const { call } = lockInstance();
+    const first = await call({ op: "claim", fingerprint: "fp" });
+    expect(first.owner).toEqual(expect.any(String));
+    expect(await call({ op: "claim", fingerprint: "fp" })).toEqual({ state: "in_progress", fingerprint: "fp" });
+  });
+
+  it("frees the key when no result was stored", async () => {
+    const { call } = lockInstance();
+    const { owner } = await call({ op: "claim", fingerprint: "fp" });
+    await call({ op: "release", owner, done: false });
+    expect((await call({ op: "claim", fingerprint: "fp" })).owner).toEqual(expect.any(String));
+  });
+
+  it("keeps the key done after a result was stored", async () => {
+    const { call } = lockInstance();
+    const { owner } = await call({ op: "claim", fingerprint: "fp" });
+    await call({ op: "release", owner, done: true });
+    expect(await call({ op: "claim", fingerprint: "other" })).toEqual({ state: "done", fingerprint: "fp" });
+  });
+
+  it("ignores a release from a request that no longer holds the key", async () => {
+    const { call, storage } = lockInstance();
+    const { owner } = await call({ op: "claim", fingerprint: "fp" });
+    await call({ op: "release", owner: "someone-else", done: false });
+    expect(await call({ op: "claim", fingerprint: "fp" })).toEqual({ state: "in_progress", fingerprint: "fp" });
+
+    // An abandoned claim expires after IDEM_INFLIGHT_TTL
+    storage.set("claim", { ...(storage.get("claim") as object), until: Date.now() - 1 });
+    const next = await call({ op: "claim", fingerprint: "fp" });
+    expect(next.owner).not.toBe(owner);
+    expect(next.owner).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import worker, { type Env } from "../src/index";
+
+const API_KEY = "rk_live_settings_test";
+const ctx = { waitUntil() {}, passThroughOnException() {} } as unknown as ExecutionContext;
+
+async function sha256B64url(s: string) {
+  return Buffer.from(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(s))).toString("base64url");
+}
+
+// KV whose api:<hash> record is replaced right after the first read: a revoke or rotation that lands
+// between authentication and the settings write
+async function setup(afterAuth: (meta: any) => any) {
+  const hash = await sha256B64url(API_KEY);
+  const apiKey = `api:${hash}`;
+  const data = new Map<string, string>();
+  data.set(apiKey, JSON.stringify({ status: "active", open_id: "o1", accounts: [{ open_id: "o1" }], created_at: Date.now() }));
+  let reads = 0;
+  const kv = {
+    async get(key: string) {
+      const v = data.get(key) ?? null;
+      if (key === apiKey && reads++ === 0) data.set(key, JSON.stringify(afterAuth(JSON.parse(v!))));
+      return v;
+    },
+    async put(key: string, value: string) {
+      data.set(key, value);
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+  };
+  const env = { TOKENS_KV: kv, RATE_LIMIT_KEYS: "30/60" } as unknown as Env;
+  const call = (path: string, body: object) =>
+    worker.fetch(new Request(`https://worker.test${path}`, {
+      method: "POST",
+      headers: { "x-api-key": API_KEY, "content-type": "application/json" },
+      body: JSON.stringify(body),
+    }), env, ctx);
+  return { call, record: () => JSON.parse(data.get(apiKey)!) };
+}
+
+const revoke = (meta: any) => ({ ...meta, status: "revoked", revoked_at: Date.now() });
+const rotate = (meta: any) => ({ ...meta, grace_until: Date.now() + 3600_000, rotated_to: "newhash0" });
+
+describe("key settings writes", () => {
+  it("don't undo a revoke that landed after authentication", async () => {
+    const { call, record } = await setup(revoke);
+    const res = await call("/keys/label", { label: "Zapier" });
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ error: "key_not_modifiable" });
+    expect(record()).toMatchObject({ status: "revoked" });
+    expect(record().label).toBeUndefined();
+  });
+
+  it("don't drop a rotation that landed after authentication", async () => {
+    const { call, record } = await setup(rotate);
+    expect((await call("/keys/caption", { hashtags: ["x"] })).status).toBe(409);
+    expect(record().grace_until).toEqual(expect.any(Number));
+    expect(record().caption).toBeUndefined();
+  });
+
+  it("apply to the current record", async () => {
+    const { call, record } = await setup((meta) => ({ ...meta, callback_url: "https://hooks.example.com/x" }));
+    const res = await call("/keys/label", { label: "Zapier" });
+    expect(res.status).toBe(200);
+    expect(record()).toMatchObject({ status: "active", label: "Zapier", callback_url: "https://hooks.example.com/x" });
+  });
+
+  it("don't issue a signing secret to a key rotated out after authentication", async () => {
+    const { call, record } = await setup(rotate);
+    const res = await call("/callbacks", { callbackUrl: "https://hooks.example.com/x", rotateSecret: true });
+    expect(res.status).toBe(409);
+    expect(record().signing_secret).toBeUndefined();
+    expect(record().callback_url).toBeUndefined();
+    expect(record().grace_until).toEqual(expect.any(Number));
+  });
+
+  it("set the callback URL and secret on the current record", async () => {
+    const { call, record } = await setup((meta) => ({ ...meta, label: "Renamed" }));
+    const res = await call("/callbacks", { callbackUrl: "https://hooks.example.com/x" });
+    const out: any = await res.json();
+    expect(res.status).toBe(200);
+    expect(out.signingSecret).toMatch(/^whsec_/);
+    expect(record()).toMatchObject({ label: "Renamed", callback_url: "https://hooks.example.com/x", signing_secret: out.signingSecret });
+  });
+});
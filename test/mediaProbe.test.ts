@@ -0,0 +1,356 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkVideoLimits, makeMediaProbe, type VideoMeta } from "../src/mediaProbe";
+
+// ---- Box builders (ISO BMFF, big-endian) ----
+type Part = Uint8Array | number[];
+
+function concat(...parts: Part[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
+
+const u32 = (n: number) => [(n >>> 24) & 255, (n >>> 16) & 255, (n >>> 8) & 255, n & 255];
+const i32 = (n: number) => u32(n >>> 0);
+const u64 = (n: number) => [...u32(Math.floor(n / 2 ** 32)), ...u32(n % 2 ** 32)];
+const fourcc = (s: string) => [...s].map((c) => c.charCodeAt(0));
+const zeros = (n: number) => new Array(n).fill(0);
+
+function box(type: string, ...payload: Part[]) {
+  const body = concat(...payload);
+  return concat(u32(8 + body.length), fourcc(type), body);
+}
+
+// size field 1, real size in the 64-bit largesize that follows the type
+function largeBox(type: string, ...payload: Part[]) {
+  const body = concat(...payload);
+  return concat(u32(1), fourcc(type), u64(16 + body.length), body);
+}
+
+const fullBox = (type: string, version: number, ...payload: Part[]) => box(type, [version, 0, 0, 0], ...payload);
+
+const ftyp = (brand = "isom") => box("ftyp", fourcc(brand), u32(0), fourcc("isom"), fourcc("mp42"));
+
+function mvhd(version: 0 | 1, timescale: number, duration: number) {
+  return version === 1
+    ? fullBox("mvhd", 1, u64(0), u64(0), u32(timescale), u64(duration), zeros(80))
+    : fullBox("mvhd", 0, u32(0), u32(0), u32(timescale), u32(duration), zeros(80));
+}
+
+const FIXED_ONE = 0x10000;
+const ROTATIONS: Record<number, [number, number, number, number]> = {
+  0: [FIXED_ONE, 0, 0, FIXED_ONE],
+  90: [0, FIXED_ONE, -FIXED_ONE, 0],
+  180: [-FIXED_ONE, 0, 0, -FIXED_ONE],
+  270: [0, -FIXED_ONE, FIXED_ONE, 0],
+};
+
+function tkhd(version: 0 | 1, width: number, height: number, rotation = 0) {
+  const [a, b, c, d] = ROTATIONS[rotation];
+  const matrix = [a, b, 0, c, d, 0, 0, 0, 0x40000000].flatMap(i32);
+  const size = [...u32(width * 65536), ...u32(height * 65536)];
+  return version === 1
+    ? fullBox("tkhd", 1, u64(0), u64(0), u32(1), u32(0), u64(0), zeros(8), zeros(8), matrix, size)
+    : fullBox("tkhd", 0, u32(0), u32(0), u32(1), u32(0), u32(0), zeros(8), zeros(8), matrix, size);
+}
+
+function mdhd(version: 0 | 1, timescale: number, duration: number) {
+  return version === 1
+    ? fullBox("mdhd", 1, u64(0), u64(0), u32(timescale), u64(duration), zeros(4))
+    : fullBox("mdhd", 0, u32(0), u32(0), u32(timescale), u32(duration), zeros(4));
+}
+
+const hdlr = (handler: string) => fullBox("hdlr", 0, u32(0), fourcc(handler), zeros(12), [0]);
+const stsd = (format: string) => fullBox("stsd", 0, u32(1), box(format, zeros(78)));
+const stts = (entries: [count: number, delta: number][]) =>
+  fullBox("stts", 0, u32(entries.length), ...entries.map(([n, d]) => [...u32(n), ...u32(d)]));
+
+type TrackSpec = {
+  handler?: "vide" | "soun";
+  format?: string;
+  version?: 0 | 1;
+  width?: number;
+  height?: number;
+  rotation?: number;
+  timescale?: number;
+  duration?: number;
+  samples?: [number, number][];
+};
+
+function trak(t: TrackSpec = {}) {
+  const { handler = "vide", format = "avc1", version = 0, width = 1920, height = 1080, rotation = 0 } = t;
+  const { timescale = 15360, duration = 153600, samples = [[300, 512]] } = t;
+  return box(
+    "trak",
+    tkhd(version, handler === "vide" ? width : 0, handler === "vide" ? height : 0, rotation),
+    box("mdia", mdhd(version, timescale, duration), hdlr(handler), box("minf", box("stbl", stsd(format), stts(samples))))
+  );
+}
+
+type MovieSpec = { brand?: string; version?: 0 | 1; timescale?: number; duration?: number; tracks?: Uint8Array[]; moovFirst?: boolean };
+
+// 10s of 1080p H.264 at 30fps with AAC audio, moov after mdat unless moovFirst
+function movie(m: MovieSpec = {}) {
+  const { brand = "isom", version = 0, timescale = 1000, duration = 10_000, moovFirst = false } = m;
+  const tracks = m.tracks ?? [trak({ version }), trak({ handler: "soun", format: "mp4a", version, timescale: 48000, duration: 480_000 })];
+  const moov = box("moov", mvhd(version, timescale, duration), ...tracks);
+  const mdat = box("mdat", new Uint8Array(256).fill(0xaa));
+  return moovFirst ? concat(ftyp(brand), moov, mdat) : concat(ftyp(brand), mdat, moov);
+}
+
+// ---- Readers ----
+type FileSource = { size: number; read(offset: number, length: number): Uint8Array };
+
+const solid = (bytes: Uint8Array): FileSource => ({
+  size: bytes.length,
+  read: (offset, length) => bytes.slice(offset, offset + length),
+});
+
+// Zeros except for the given pieces, so a file can claim gigabytes without allocating them
+function sparse(size: number, pieces: [offset: number, bytes: Uint8Array][]): FileSource {
+  return {
+    size,
+    read(offset, length) {
+      const out = new Uint8Array(Math.max(0, Math.min(length, size - offset)));
+      for (const [at, bytes] of pieces) {
+        const from = Math.max(offset, at);
+        const to = Math.min(offset + out.length, at + bytes.length);
+        if (from < to) out.set(bytes.subarray(from - at, to - at), from - offset);
+      }
+      return out;
+    },
+  };
+}
+
+const KEY = "renders/clip.mp4";
+
+function bucket(file: FileSource) {
+  const reads: [number, number][] = [];
+  const MEDIA_BUCKET = {
+    head: async (key: string) => (key === KEY ? { size: file.size } : null),
+    get: async (key: string, { range }: { range: { offset: number; length: number } }) => {
+      if (key !== KEY) return null;
+      reads.push([range.offset, range.length]);
+      const bytes = file.read(range.offset, range.length);
+      return { arrayBuffer: async () => bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) };
+    },
+  } as unknown as R2Bucket;
+  return { MEDIA_BUCKET, reads };
+}
+
+async function probe(file: FileSource | Uint8Array) {
+  const src = file instanceof Uint8Array ? solid(file) : file;
+  return makeMediaProbe(bucket(src)).probeVideo({ key: KEY });
+}
+
+async function probeMeta(file: FileSource | Uint8Array) {
+  const out = await probe(file);
+  if (!("meta" in out)) throw new Error(`probe failed: ${out.error.message}`);
+  return out.meta;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("probeVideo", () => {
+  it("reads a v0 MP4 with video and audio tracks", async () => {
+    const file = movie();
+    expect(await probeMeta(file)).toEqual({
+      container: "mp4",
+      brand: "isom",
+      sizeBytes: file.length,
+      durationSec: 10,
+      width: 1920,
+      height: 1080,
+      rotation: 0,
+      frameRate: 30,
+      videoCodec: "h264",
+      audioCodec: "aac",
+    });
+  });
+
+  it("reads v1 (64-bit time) mvhd, tkhd and mdhd", async () => {
+    const meta = await probeMeta(movie({ version: 1, timescale: 90000, duration: 900_000 }));
+    expect(meta).toMatchObject({ durationSec: 10, width: 1920, height: 1080, frameRate: 30, videoCodec: "h264" });
+  });
+
+  it("names a QuickTime file mov", async () => {
+    const meta = await probeMeta(movie({ brand: "qt  " }));
+    expect(meta).toMatchObject({ container: "mov", brand: "qt" });
+  });
+
+  it.each([
+    [90, 1080, 1920],
+    [180, 1920, 1080],
+    [270, 1080, 1920],
+  ])("applies a %i° rotation matrix to the display size", async (rotation, width, height) => {
+    const meta = await probeMeta(movie({ tracks: [trak({ rotation })] }));
+    expect(meta).toMatchObject({ rotation, width, height });
+  });
+
+  it.each([
+    ["constant 30fps", 15360, 153600, [[300, 512]], 30],
+    ["NTSC 29.97fps", 30000, 300300, [[300, 1001]], 29.97],
+    ["several stts runs", 600, 6000, [[100, 20], [140, 25], [10, 50]], 25],
+  ] as [string, number, number, [number, number][], number][])(
+    "derives the frame rate from stts: %s",
+    async (_, timescale, duration, samples, frameRate) => {
+      const meta = await probeMeta(movie({ tracks: [trak({ timescale, duration, samples })] }));
+      expect(meta.frameRate).toBe(frameRate);
+    }
+  );
+
+  it("finds moov in front of mdat too", async () => {
+    expect(await probeMeta(movie({ moovFirst: true }))).toMatchObject({ durationSec: 10, videoCodec: "h264" });
+  });
+
+  it("skips a 64-bit mdat larger than 4GB without reading the media data", async () => {
+    const head = ftyp();
+    const mdatSize = 5 * 1024 ** 3;
+    const mdatHeader = concat(u32(1), fourcc("mdat"), u64(mdatSize));
+    const moov = box("moov", mvhd(0, 1000, 10_000), trak());
+    const moovAt = head.length + mdatSize;
+    const file = sparse(moovAt + moov.length, [[0, head], [head.length, mdatHeader], [moovAt, moov]]);
+    const { MEDIA_BUCKET, reads } = bucket(file);
+
+    const out = await makeMediaProbe({ MEDIA_BUCKET }).probeVideo({ key: KEY });
+    expect(out).toMatchObject({ meta: { sizeBytes: moovAt + moov.length, durationSec: 10, width: 1920 } });
+    const payloadStart = head.length + mdatHeader.length;
+    for (const [offset, length] of reads) expect(offset + length <= payloadStart || offset >= moovAt).toBe(true);
+    expect(checkVideoLimits((out as { meta: VideoMeta }).meta).map((i) => i.code)).toEqual(["file_too_large"]);
+  });
+
+  it("parses 64-bit sizes on boxes inside moov", async () => {
+    const tracks = [largeBox("trak", tkhd(0, 1280, 720), box("mdia", mdhd(0, 30, 300), hdlr("vide"),
+      box("minf", largeBox("stbl", stsd("hvc1"), stts([[300, 1]]))))
+    )];
+    expect(await probeMeta(movie({ tracks }))).toMatchObject({ width: 1280, height: 720, frameRate: 30, videoCodec: "h265" });
+  });
+
+  it("reports a file with only audio as having no video track", async () => {
+    const meta = await probeMeta(movie({ tracks: [trak({ handler: "soun", format: "mp4a" })] }));
+    expect(meta).toMatchObject({ audioCodec: "aac" });
+    expect(meta.width).toBeUndefined();
+    expect(meta.videoCodec).toBeUndefined();
+    expect(checkVideoLimits(meta).map((i) => i.code)).toEqual(["no_video_track"]);
+  });
+
+  it("keeps the raw fourcc of an unknown codec", async () => {
+    const meta = await probeMeta(movie({ tracks: [trak({ format: "mjpa" })] }));
+    expect(meta.videoCodec).toBe("mjpa");
+  });
+
+  it("ignores a track whose child box overruns it", async () => {
+    const broken = trak();
+    new DataView(broken.buffer).setUint32(8, broken.length); // tkhd claims the whole trak and more
+    const meta = await probeMeta(movie({ tracks: [broken] }));
+    expect(meta.durationSec).toBe(10);
+    expect(meta.videoCodec).toBeUndefined();
+  });
+
+  it.each([
+    ["a file cut off inside moov", () => movie().slice(0, -40), expect.any(String)],
+    ["a file with no moov", () => concat(ftyp(), box("mdat", zeros(64))), "no moov box found"],
+    ["a file that does not start with ftyp", () => concat(box("free", zeros(8)), movie()), expect.stringContaining("no ftyp box")],
+    ["a box header with a size below 8", () => concat(ftyp(), u32(4), fourcc("mdat"), zeros(32)), "corrupt box header at byte 24"],
+  ])("returns media_unreadable for %s", async (_, make, message) => {
+    expect(await probe(make())).toEqual({ error: { code: "media_unreadable", message } });
+  });
+
+  it("returns object_not_found when the bucket has no such key", async () => {
+    const { MEDIA_BUCKET } = bucket(solid(movie()));
+    expect(await makeMediaProbe({ MEDIA_BUCKET }).probeVideo({ key: "missing.mp4" })).toEqual({
+      error: { code: "object_not_found", message: "No R2 object at missing.mp4" },
+    });
+  });
+
+  it("reads a presigned URL with Range requests when there is no bucket", async () => {
+    const file = movie();
+    const ranges: string[] = [];
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init: RequestInit) => {
+      const range = new Headers(init.headers).get("range")!;
+      ranges.push(range);
+      const [from, to] = range.replace("bytes=", "").split("-").map(Number);
+      return new Response(file.slice(from, to + 1), {
+        status: 206,
+        headers: { "content-range": `bytes ${from}-${Math.min(to, file.length - 1)}/${file.length}` },
+      });
+    }));
+
+    const out = await makeMediaProbe({}).probeVideo({ key: KEY, url: "https://media.example.com/clip.mp4" });
+    expect(out).toMatchObject({ meta: { sizeBytes: file.length, durationSec: 10, videoCodec: "h264" } });
+    expect(ranges.every((r) => /^bytes=\d+-\d+$/.test(r))).toBe(true);
+  });
+
+  it("fails the probe when the media host ignores Range", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(movie(), { status: 200 })));
+    const out = await makeMediaProbe({}).probeVideo({ key: KEY, url: "https://media.example.com/clip.mp4" });
+    expect(out).toEqual({ error: { code: "media_probe_failed", message: "media host answered 200 to a range request" } });
+  });
+});
+
+describe("checkVideoLimits", () => {
+  const ok: VideoMeta = {
+    container: "mp4",
+    brand: "isom",
+    sizeBytes: 10_000_000,
+    durationSec: 30,
+    width: 1080,
+    height: 1920,
+    rotation: 0,
+    frameRate: 30,
+    videoCodec: "h264",
+  };
+  const codes = (patch: Partial<VideoMeta>, opts?: { maxDurationSec?: number }) =>
+    checkVideoLimits({ ...ok, ...patch }, opts).map((i) => i.code);
+
+  it.each([
+    ["4GB exactly", { sizeBytes: 4 * 1024 ** 3 }, []],
+    ["one byte over 4GB", { sizeBytes: 4 * 1024 ** 3 + 1 }, ["file_too_large"]],
+    ["3s exactly", { durationSec: 3 }, []],
+    ["just under 3s", { durationSec: 2.99 }, ["duration_too_short"]],
+    ["600s exactly", { durationSec: 600 }, []],
+    ["just over 600s", { durationSec: 600.01 }, ["duration_too_long"]],
+    ["360px short side", { width: 360, height: 640 }, []],
+    ["359px short side", { width: 359, height: 640 }, ["resolution_out_of_range"]],
+    ["4096px long side", { width: 2160, height: 4096 }, []],
+    ["4097px long side", { width: 2160, height: 4097 }, ["resolution_out_of_range"]],
+    ["23fps", { frameRate: 23 }, []],
+    ["22.99fps", { frameRate: 22.99 }, ["frame_rate_out_of_range"]],
+    ["60fps", { frameRate: 60 }, []],
+    ["60.01fps", { frameRate: 60.01 }, ["frame_rate_out_of_range"]],
+    ["unknown frame rate", { frameRate: undefined }, []],
+    ["H.265", { videoCodec: "h265" }, []],
+    ["VP9", { videoCodec: "vp9" }, []],
+    ["AV1", { videoCodec: "av1" }, ["unsupported_codec"]],
+  ] as [string, Partial<VideoMeta>, string[]][])("%s", (_, patch, expected) => {
+    expect(codes(patch)).toEqual(expected);
+  });
+
+  it("applies the creator's shorter duration limit, never a longer one", () => {
+    expect(codes({ durationSec: 60 }, { maxDurationSec: 60 })).toEqual([]);
+    expect(codes({ durationSec: 60.5 }, { maxDurationSec: 60 })).toEqual(["duration_too_long"]);
+    expect(codes({ durationSec: 601 }, { maxDurationSec: 900 })).toEqual(["duration_too_long"]);
+  });
+
+  it("stops at a missing video track instead of reporting its size or codec", () => {
+    expect(codes({ width: undefined, height: undefined, videoCodec: undefined, durationSec: 1 })).toEqual([
+      "duration_too_short",
+      "no_video_track",
+    ]);
+  });
+
+  it("reports every broken rule at once", () => {
+    expect(codes({ sizeBytes: 5 * 1024 ** 3, width: 200, frameRate: 120, videoCodec: "av1" })).toEqual([
+      "file_too_large",
+      "resolution_out_of_range",
+      "frame_rate_out_of_range",
+      "unsupported_codec",
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import worker, { dashboardLoginPage, renderCallbackPage, type Env } from "../src/index";
+
+const PAYLOADS = [
+  `<script>alert(1)</script>`,
+  `"><img src=x onerror=alert(2)>`,
+  `' onmouseover='alert(3)`,
+];
+const HOSTILE = PAYLOADS.join(" ");
+const ESCAPED = HOSTILE.replace(/[&<>"'`]/g, (c) => `&#${c.charCodeAt(0)};`);
+
+// No payload survives as markup, each one is present escaped, and every <script> carries the CSP nonce
+async function expectSafePage(res: Response, escapedCount = 1) {
+  const body = await res.text();
+  for (const p of PAYLOADS) expect(body).not.toContain(p);
+  expect(body).not.toMatch(/<img\b|' onmouseover=/);
+  expect(body.split(ESCAPED).length - 1).toBeGreaterThanOrEqual(escapedCount);
+
+  const csp = res.headers.get("content-security-policy") ?? "";
+  const nonce = csp.match(/script-src 'nonce-([0-9a-f]+)'/)?.[1];
+  expect(nonce).toBeTruthy();
+  expect(csp).not.toMatch(/script-src[^;]*'unsafe-inline'/);
+  const scripts = [...body.matchAll(/<script\b([^>]*)>/g)].map((m) => m[1]);
+  expect(scripts.length).toBeGreaterThan(0);
+  for (const attrs of scripts) expect(attrs).toContain(`nonce="${nonce}"`);
+  return body;
+}
+
+function memoryKv() {
+  const data = new Map<string, { value: string; metadata?: unknown }>();
+  return {
+    async get(key: string) {
+      return data.get(key)?.value ?? null;
+    },
+    async put(key: string, value: string, opts: { metadata?: unknown } = {}) {
+      data.set(key, { value, metadata: opts.metadata });
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+    async list({ prefix = "", limit = 1000 }: { prefix?: string; limit?: number } = {}) {
+      const keys = [...data.keys()].filter((k) => k.startsWith(prefix)).sort().slice(0, limit)
+        .map((name) => ({ name, metadata: data.get(name)!.metadata }));
+      return { keys, list_complete: true };
+    },
+  };
+}
+
+const ctx = { waitUntil() {}, passThroughOnException() {} } as unknown as ExecutionContext;
+
+async function sha256B64url(s: string) {
+  return Buffer.from(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(s))).toString("base64url");
+}
+
+describe("renderCallbackPage", () => {
+  it("escapes title, message and details", async () => {
+    const res = renderCallbackPage({ ok: false, title: HOSTILE, message: HOSTILE, details: HOSTILE }, 500);
+    expect(res.status).toBe(500);
+    await expectSafePage(res, 3);
+  });
+
+  it("only posts the sign-in result to its own origin", async () => {
+    const body = await renderCallbackPage({ ok: true, title: "Connected", message: HOSTILE }).text();
+    expect(body).toContain("location.origin");
+    expect(body).not.toMatch(/postMessage\([^)]*["']\*["']/);
+  });
+});
+
+describe("dashboardLoginPage", () => {
+  it("escapes the message", async () => {
+    await expectSafePage(dashboardLoginPage(HOSTILE, 401));
+  });
+});
+
+describe("pages served by the Worker", () => {
+  const env = () => ({
+    TOKENS_KV: memoryKv(),
+    TIKTOK_CLIENT_SECRET: "client-secret",
+    RATE_LIMIT_WEBHOOK: "60/60",
+  }) as unknown as Env;
+
+  it("createKey does not echo the submitted label", async () => {
+    const e = env();
+    const res = await worker.fetch(
+      new Request("https://worker.test/keys/new", { method: "POST", body: new URLSearchParams({ label: HOSTILE }) }),
+      e,
+      ctx
+    );
+    expect(res.status).toBe(200);
+    await expectSafePage(res, 0);
+  });
+
+  it("renderDashboard escapes account labels, captions and error codes", async () => {
+    const e = env();
+    const apiKey = "rk_live_pages_test";
+    const hash = await sha256B64url(apiKey);
+    const now = Date.now();
+    await e.TOKENS_KV.put(`api:${hash}`, JSON.stringify({
+      status: "active",
+      open_id: "o1",
+      label: HOSTILE,
+      accounts: [{ open_id: "o1", label: HOSTILE }],
+      created_at: now,
+    }));
+    await e.TOKENS_KV.put("tok:open:o1", JSON.stringify({ access_token: "a", obtained_at: now, expires_in: 86400 }));
+    await e.TOKENS_KV.put(`hist:o1:${String(9e12 - now).padStart(13, "0")}:h1`, JSON.stringify({
+      id: "h1", open_id: "o1", created_at: now, status: "failed", ok: false, r2_key: "clip.mp4",
+      media_keys: ["clip.mp4"], caption: HOSTILE, error_code: HOSTILE, publish_id: null,
+    }), { metadata: { status: "failed", created_at: now } });
+
+    const login = await worker.fetch(
+      new Request("https://worker.test/dashboard/login", { method: "POST", body: new URLSearchParams({ api_key: apiKey }) }),
+      e,
+      ctx
+    );
+    const cookie = login.headers.get("set-cookie")?.split(";")[0];
+    expect(cookie).toMatch(/^__Host-r2tt_session=/);
+
+    const res = await worker.fetch(new Request("https://worker.test/dashboard", { headers: { cookie: cookie! } }), e, ctx);
+    expect(res.status).toBe(200);
+    // key label in the header, account label, caption text and title attribute, error code
+    await expectSafePage(res, 5);
+  });
+});
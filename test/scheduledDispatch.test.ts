@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import worker, { type Env } from "../src/index";
+
+const FREQUENT_CRON = "*/5 * * * *";
+
+function memoryKv() {
+  const data = new Map<string, { value: string; metadata?: unknown }>();
+  return {
+    data,
+    async get(key: string) {
+      return data.get(key)?.value ?? null;
+    },
+    async put(key: string, value: string, opts: { metadata?: unknown } = {}) {
+      data.set(key, { value, metadata: opts.metadata });
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+    async list({ prefix = "" }: { prefix?: string } = {}) {
+      const keys = [...data.keys()].filter((k) => k.startsWith(prefix)).sort()
+        .map((name) => ({ name, metadata: data.get(name)!.metadata }));
+      return { keys, list_complete: true };
+    },
+  };
+}
+
+// A due photo post for the same account; `caption` picks the TikTok answer in the fetch mock below
+async function addDueJob(kv: ReturnType<typeof memoryKv>, id: string, caption: string) {
+  const publishAt = Date.now() - 1000;
+  const job = { open_id: "o1", api_hash: "h1", type: "photo", image_keys: ["a.jpg"], caption, mode: "direct", privacy: "SELF_ONLY" };
+  await kv.put(`sched:h1:${id}`, JSON.stringify({ id, job, publish_at: publishAt, status: "scheduled", created_at: 0, updated_at: 0 }));
+  await kv.put(`schedq:h1:${id}`, "", { metadata: { publish_at: publishAt } });
+}
+
+async function runTick(env: Env) {
+  const pending: Promise<unknown>[] = [];
+  await worker.scheduled!({ cron: FREQUENT_CRON } as any, env, { waitUntil: (p: Promise<unknown>) => pending.push(p) } as any);
+  await Promise.all(pending);
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("dispatchDueJobs", () => {
+  it("puts a job back as scheduled when queueing its retry fails, and carries on with the next job", async () => {
+    const kv = memoryKv();
+    await kv.put("tok:open:o1", JSON.stringify({ access_token: "a", obtained_at: Date.now(), expires_in: 86400 }));
+    await addDueJob(kv, "j1", "transient");
+    await addDueJob(kv, "j2", "rejected");
+    vi.stubGlobal("fetch", vi.fn(async (_url: string, init?: RequestInit) => {
+      const url = String(_url);
+      if (url.includes("creator_info")) {
+        return Response.json({ data: { privacy_level_options: ["SELF_ONLY"], max_video_post_duration_sec: 600 }, error: { code: "ok" } });
+      }
+      const transient = String(init?.body).includes("transient");
+      return Response.json(
+        { error: { code: transient ? "internal_error" : "invalid_params", message: "no" } },
+        { status: transient ? 500 : 400 }
+      );
+    }));
+    const env = {
+      TOKENS_KV: kv,
+      CREATOR_INFO_URL: "https://tiktok.test/creator_info",
+      CONTENT_INIT_URL: "https://tiktok.test/content/init",
+      POST_QUEUE: { send: async () => { throw new Error("queue unavailable"); } },
+      R2_ACCESS_KEY_ID: "k",
+      R2_SECRET_ACCESS_KEY: "s",
+      R2_BUCKET: "b",
+      CUSTOM_MEDIA_HOST: "media.example.com",
+    } as unknown as Env;
+
+    await runTick(env);
+
+    const j1 = JSON.parse((await kv.get("sched:h1:j1"))!);
+    expect(j1.status).toBe("scheduled");
+    expect(kv.data.has("schedq:h1:j1")).toBe(true);
+    const j2 = JSON.parse((await kv.get("sched:h1:j2"))!);
+    expect(j2.status).toBe("failed");
+    expect(kv.data.has("schedq:h1:j2")).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getAccessTokenFor, TokenRefreshLock, type Env } from "../src/index";
+import { makeTokenCrypto } from "../src/tokenCrypto";
+
+const masterKey = (kid: string, byte: number) => `${kid}:${btoa(String.fromCharCode(...new Uint8Array(32).fill(byte)))}`;
+const TOKEN_ENC_KEYS = masterKey("k1", 7);
+const TOKEN_URL = "https://open.tiktokapis.test/v2/oauth/token/";
+const KV_KEY = "tok:open:user-1";
+
+function memoryKv() {
+  const data = new Map<string, string>();
+  const kv = {
+    data,
+    async get(key: string) {
+      return data.get(key) ?? null;
+    },
+    async put(key: string, value: string) {
+      data.set(key, value);
+    },
+    async delete(key: string) {
+      data.delete(key);
+    },
+  };
+  return kv;
+}
+
+// One TokenRefreshLock per name, each with its own storage, like a Durable Object namespace
+function lockNamespace(env: () => Env) {
+  const instances = new Map<string, TokenRefreshLock>();
+  const storages = new Map<string, Map<string, unknown>>();
+  return {
+    storages,
+    idFromName: (name: string) => name,
+    get(name: string) {
+      return {
+        async fetch(url: string, init: RequestInit) {
+          let lock = instances.get(name);
+          if (!lock) {
+            const storage = new Map<string, unknown>();
+            storages.set(name, storage);
+            const state = {
+              storage: {
+                get: async (k: string) => storage.get(k),
+                put: async (k: string, v: unknown) => void storage.set(k, v),
+                delete: async (k: string) => storage.delete(k),
+              },
+            };
+            lock = new TokenRefreshLock(state as any, env());
+            instances.set(name, lock);
+          }
+          return lock.fetch(new Request(url, init));
+        },
+      };
+    },
+  };
+}
+
+// TikTok's token endpoint: every successful refresh rotates the refresh token and kills the old one
+function rotatingTokenEndpoint(initialRefresh: string) {
+  let current = initialRefresh;
+  let n = 0;
+  const refreshPosts: string[] = [];
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (url !== TOKEN_URL) throw new Error(`unexpected fetch ${url}`);
+    const body = new URLSearchParams(String(init?.body));
+    if (body.get("grant_type") === "refresh_token") refreshPosts.push(body.get("refresh_token")!);
+    await new Promise((r) => setTimeout(r, 20));
+    if (body.get("refresh_token") !== current) {
+      return Response.json({ error: "invalid_grant", error_description: "refresh token revoked" }, { status: 400 });
+    }
+    n++;
+    current = `rt-${n}`;
+    return Response.json({ access_token: `at-${n}`, refresh_token: current, expires_in: 86400, refresh_expires_in: 31536000 });
+  });
+  return { fetchMock, refreshPosts, current: () => current };
+}
+
+async function setup() {
+  const kv = memoryKv();
+  const env = {
+    TOKENS_KV: kv,
+    TOKEN_URL,
+    TIKTOK_CLIENT_KEY: "ck",
+    TIKTOK_CLIENT_SECRET: "cs",
+    TOKEN_ENC_KEYS,
+  } as unknown as Env;
+  (env as any).TOKEN_LOCK = lockNamespace(() => env);
+
+  const expired = { access_token: "at-0", refresh_token: "rt-0", expires_in: 86400, obtained_at: Date.now() - 2 * 86400_000 };
+  await kv.put(KV_KEY, await makeTokenCrypto(env).seal(expired, KV_KEY));
+
+  const stored = async () => (await makeTokenCrypto(env).open((await kv.get(KV_KEY))!, KV_KEY)).value;
+  return { env, kv, stored, lockStorage: () => (env as any).TOKEN_LOCK.storages.get(KV_KEY) as Map<string, unknown> };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("getAccessTokenFor through TokenRefreshLock", () => {
+  it("refreshes once for concurrent callers and keeps the newest refresh token in KV", async () => {
+    const { env, stored } = await setup();
+    const endpoint = rotatingTokenEndpoint("rt-0");
+    vi.stubGlobal("fetch", endpoint.fetchMock);
+
+    const tokens = await Promise.all(Array.from({ length: 5 }, () => getAccessTokenFor(env, KV_KEY)));
+
+    expect(tokens).toEqual(Array(5).fill("at-1"));
+    expect(endpoint.refreshPosts).toEqual(["rt-0"]);
+    const tok = await stored();
+    expect(tok.refresh_token).toBe(endpoint.current());
+    expect(tok.refresh_token).toBe("rt-1");
+    expect(tok.needs_reauth).toBeUndefined();
+  });
+
+  it("serves a caller that still sees the old KV record from the lock's copy", async () => {
+    const { env, kv } = await setup();
+    const endpoint = rotatingTokenEndpoint("rt-0");
+    vi.stubGlobal("fetch", endpoint.fetchMock);
+
+    const staleRecord = kv.data.get(KV_KEY)!;
+    await getAccessTokenFor(env, KV_KEY);
+    // KV is eventually consistent: another colo can keep serving the pre-refresh record for a while
+    kv.data.set(KV_KEY, staleRecord);
+
+    await expect(getAccessTokenFor(env, KV_KEY)).resolves.toBe("at-1");
+    expect(endpoint.refreshPosts).toEqual(["rt-0"]);
+  });
+
+  it("falls back to KV when the lock's copy is sealed under a removed master key", async () => {
+    const { env, kv, stored, lockStorage } = await setup();
+    const endpoint = rotatingTokenEndpoint("rt-0");
+    vi.stubGlobal("fetch", endpoint.fetchMock);
+    await getAccessTokenFor(env, KV_KEY);
+
+    // Rotate to k2 and drop k1 after the daily re-encrypt; only KV gets re-sealed
+    const tok = { ...(await stored()), obtained_at: Date.now() - 2 * 86400_000 };
+    (env as any).TOKEN_ENC_KEYS = masterKey("k2", 9);
+    await kv.put(KV_KEY, await makeTokenCrypto(env).seal(tok, KV_KEY));
+
+    await expect(getAccessTokenFor(env, KV_KEY)).resolves.toBe("at-2");
+    expect(endpoint.refreshPosts).toEqual(["rt-0", "rt-1"]);
+    const copy = await makeTokenCrypto(env).open(lockStorage().get("tok") as string, KV_KEY);
+    expect(copy.value.refresh_token).toBe("rt-2");
+  });
+
+  it("replaces a plain-object copy left by an older version", async () => {
+    const { env, kv, stored, lockStorage } = await setup();
+    const endpoint = rotatingTokenEndpoint("rt-0");
+    vi.stubGlobal("fetch", endpoint.fetchMock);
+    await getAccessTokenFor(env, KV_KEY);
+
+    const tok = { ...(await stored()), obtained_at: Date.now() - 2 * 86400_000 };
+    await kv.put(KV_KEY, await makeTokenCrypto(env).seal(tok, KV_KEY));
+    lockStorage().set("tok", { access_token: "at-old", refresh_token: "rt-old", obtained_at: Date.now() });
+
+    await expect(getAccessTokenFor(env, KV_KEY)).resolves.toBe("at-2");
+    expect(endpoint.refreshPosts).toEqual(["rt-0", "rt-1"]);
+    expect(typeof lockStorage().get("tok")).toBe("string");
+    expect((await stored()).refresh_token).toBe("rt-2");
+  });
+});